@@ -0,0 +1,71 @@
+import { EditorState } from "@codemirror/state";
+import { describe, expect, it } from "vitest";
+import {
+  type AutocompletePromptContext,
+  defaultAutocompletePrompt,
+  promptTemplateFor,
+  renderAutocompletePrompt,
+} from "../autocomplete-prompt";
+
+const context: AutocompletePromptContext = {
+  state: EditorState.create(),
+  codeBefore: "import os",
+  currentLine: "x = {code_after}",
+  codeAfter: "print(x)",
+  language: { name: "python", indentUnit: "    ", enclosingNodes: [] },
+  fileName: "main.py",
+};
+
+describe("renderAutocompletePrompt", () => {
+  it("fills in the slots of a string", () => {
+    expect(
+      renderAutocompletePrompt(
+        "{file_name} ({language}):\n{code_before}\n{current_line}\n{code_after}",
+        context,
+      ),
+    ).toBe("main.py (python):\nimport os\nx = {code_after}\nprint(x)");
+  });
+
+  it("leaves other braces alone", () => {
+    expect(renderAutocompletePrompt("{input} {code_before} {}", context)).toBe(
+      "{input} import os {}",
+    );
+  });
+
+  it("fills in the slots of chat messages", () => {
+    expect(
+      renderAutocompletePrompt(
+        [
+          { role: "system", content: "Complete {language} code." },
+          { role: "user", content: "{current_line}" },
+        ],
+        context,
+      ),
+    ).toEqual([
+      { role: "system", content: "Complete python code." },
+      { role: "user", content: "x = {code_after}" },
+    ]);
+  });
+
+  it("uses what a function returns as is", () => {
+    expect(renderAutocompletePrompt(({ fileName }) => `{language} ${fileName}`, context)).toBe(
+      "{language} main.py",
+    );
+  });
+
+  it("has the code in the default template", () => {
+    const prompt = renderAutocompletePrompt(defaultAutocompletePrompt, context);
+    expect(prompt).toContain("<code_before>\nimport os\n</code_before>");
+    expect(prompt).toContain("<current_line>\nx = {code_after}\n</current_line>");
+  });
+});
+
+describe("promptTemplateFor", () => {
+  it("prefers the template for the language", () => {
+    expect(promptTemplateFor(context.language, "default", { Python: "python" })).toBe("python");
+    expect(promptTemplateFor(context.language, "default", { rust: "rust" })).toBe("default");
+    expect(promptTemplateFor({ indentUnit: "  ", enclosingNodes: [] })).toBe(
+      defaultAutocompletePrompt,
+    );
+  });
+});
@@ -180,7 +180,7 @@ describe("aiAutocomplete", () => {
     // Accept suggestion via Tab key.
     dispatchKey(view, "Tab");
     await waitForSuggestion();
-    expect(onAccept.mock.calls).toEqual([["CALLBACK"]]);
+    expect(onAccept.mock.calls).toEqual([["CALLBACK", "CALLBACK"]]);
     expect(onReject).not.toHaveBeenCalled();
 
     // Reset mocks and wait for any pending state updates
@@ -302,4 +302,171 @@ describe("aiAutocomplete", () => {
     await Promise.resolve();
     expect(mockPromptFn).toHaveBeenCalledTimes(1);
   });
+
+  it("writes the prompt from a template", async () => {
+    view = createEditor([
+      aiAutocomplete({
+        prompt: mockPromptFn,
+        autocompleteDebounceTime: 0,
+        autocompletePrompt: "Complete {current_line} in {file_name}",
+        fileName: "hello.txt",
+      }),
+    ]);
+
+    await typeAt(11, "!");
+    expect(mockPromptFn.mock.calls[0][0].prompt).toBe("Complete Hello world! in hello.txt");
+    expect(mockPromptFn.mock.calls[0][0].messages).toEqual([
+      { role: "user", content: "Complete Hello world! in hello.txt" },
+    ]);
+  });
+
+  it("sends chat messages written by a template function", async () => {
+    const template = vi.fn(({ currentLine }) => [
+      { role: "system" as const, content: "You complete code." },
+      { role: "user" as const, content: currentLine },
+    ]);
+    view = createEditor([
+      aiAutocomplete({
+        prompt: mockPromptFn,
+        autocompleteDebounceTime: 0,
+        autocompletePrompt: template,
+      }),
+    ]);
+
+    await typeAt(11, "!");
+    const opts = mockPromptFn.mock.calls[0][0];
+    expect(opts.messages).toEqual([
+      { role: "system", content: "You complete code." },
+      { role: "user", content: "Hello world!" },
+    ]);
+    expect(opts.prompt).toBe("You complete code.\n\nHello world!");
+  });
+
+  it("suggests on a blank line in FIM mode", async () => {
+    mockPromptFn.mockResolvedValueOnce("print(1)");
+    view = createEditor([
+      aiAutocomplete({
+        prompt: mockPromptFn,
+        autocompleteDebounceTime: 0,
+        autocompleteMode: "fim",
+      }),
+    ]);
+
+    view.dispatch({
+      changes: { from: 11, insert: "\n" },
+      selection: { anchor: 12 },
+      userEvent: "input.type",
+    });
+    await waitForSuggestion();
+    expect(mockPromptFn).toHaveBeenCalledTimes(1);
+    expect(mockPromptFn.mock.calls[0][0]).toMatchObject({
+      codeBefore: "Hello world\n",
+      codeAfter: "",
+    });
+    expect(view.contentDOM.querySelector(".cm-ai-suggestion")?.textContent).toBe("print(1)");
+  });
+
+  it("sends the code around the cursor in FIM mode, and inserts the answer", async () => {
+    mockPromptFn.mockResolvedValueOnce("there<|endoftext|>ignored");
+    view = createEditor([
+      aiAutocomplete({
+        prompt: mockPromptFn,
+        autocompleteDebounceTime: 0,
+        autocompleteMode: "fim",
+        fimTokens: "qwen",
+      }),
+    ]);
+
+    view.dispatch({
+      changes: { from: 5, insert: " " },
+      selection: { anchor: 6 },
+      userEvent: "input.type",
+    });
+    await waitForSuggestion();
+    expect(mockPromptFn).toHaveBeenCalledTimes(1);
+    const opts = mockPromptFn.mock.calls[0][0];
+    expect(opts).toMatchObject({ fim: true, codeBefore: "Hello ", codeAfter: " world" });
+    expect(opts.prompt).toBe("<|fim_prefix|>Hello <|fim_suffix|> world<|fim_middle|>");
+
+    // The rest of the line stays visible after the ghost text
+    expect(view.contentDOM.querySelector(".cm-ai-suggestion")?.textContent).toBe("there");
+    expect(view.contentDOM.textContent).toContain("world");
+
+    dispatchKey(view, "Tab");
+    expect(view.state.doc.toString()).toBe("Hello there world");
+    expect(view.state.selection.main.head).toBe(11);
+  });
+
+  it("accepts a suggestion word by word with Mod-ArrowRight", async () => {
+    const onAccept = vi.fn();
+    mockPromptFn.mockResolvedValueOnce("Hello world, again\nand again");
+    view = createEditor([
+      aiAutocomplete({
+        prompt: mockPromptFn,
+        autocompleteDebounceTime: 0,
+        autocompletePostProcessors: [],
+        onAcceptSuggestion: onAccept,
+      }),
+    ]);
+
+    view.dispatch({
+      changes: { from: 11, insert: "," },
+      selection: { anchor: 12 },
+      userEvent: "input.type",
+    });
+    await waitForSuggestion();
+
+    dispatchKey(view, "Ctrl-ArrowRight");
+    expect(view.state.doc.toString()).toBe("Hello world, again");
+    expect(onAccept).toHaveBeenCalledWith("Hello world, again\nand again", " again");
+
+    // The rest is shown at the cursor, and isn't replaced by a new request
+    await waitForSuggestion();
+    expect(mockPromptFn).toHaveBeenCalledTimes(1);
+    expect(view.contentDOM.querySelector(".cm-ai-suggestion")?.textContent).toBe("\nand again");
+
+    dispatchKey(view, "Ctrl-ArrowDown");
+    dispatchKey(view, "Ctrl-ArrowDown");
+    expect(view.state.doc.toString()).toBe("Hello world, again\nand again");
+    expect(onAccept).toHaveBeenLastCalledWith("and again", "and again");
+  });
+
+  it("cycles through several candidates with Alt-] and Alt-[", async () => {
+    const onAccept = vi.fn();
+    mockPromptFn.mockResolvedValue(["Hello world!", "Hello world?", "Hello world!"]);
+    view = createEditor([
+      aiAutocomplete({
+        prompt: mockPromptFn,
+        autocompleteDebounceTime: 0,
+        autocompleteCandidates: 3,
+        autocompletePostProcessors: [],
+        onAcceptSuggestion: onAccept,
+      }),
+    ]);
+
+    view.dispatch({
+      changes: { from: 11, insert: "!" },
+      selection: { anchor: 12 },
+      userEvent: "input.type",
+    });
+    await waitForSuggestion();
+    expect(mockPromptFn.mock.calls[0][0].n).toBe(3);
+    const count = () => view.contentDOM.querySelector(".cm-ai-suggestion-count")?.textContent;
+    expect(count()).toBe("1/2");
+
+    const pressAlt = (key: string) =>
+      view.contentDOM.dispatchEvent(
+        new KeyboardEvent("keydown", { key, altKey: true, bubbles: true, cancelable: true }),
+      );
+    pressAlt("]");
+    expect(count()).toBe("2/2");
+    pressAlt("]");
+    pressAlt("[");
+    expect(count()).toBe("2/2");
+
+    // The candidate shown is the one accepted
+    dispatchKey(view, "Tab");
+    expect(view.state.doc.toString()).toBe("Hello world?");
+    expect(onAccept).toHaveBeenCalledWith("Hello world?", "Hello world?");
+  });
 });
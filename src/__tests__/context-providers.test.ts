@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { mentionQuery, parseMentions } from "../context-providers";
+import type { ContextProvider } from "../state";
+
+const providers: ContextProvider[] = [
+  { id: "readme", resolve: () => "# Project" },
+  { id: "open-files", resolve: () => "" },
+];
+
+describe("mentionQuery", () => {
+  it("finds the mention being typed before the cursor", () => {
+    expect(mentionQuery("@", 1)).toEqual({ from: 0, query: "" });
+    expect(mentionQuery("explain @rea", 12)).toEqual({ from: 8, query: "rea" });
+    expect(mentionQuery("explain @rea and more", 12)).toEqual({ from: 8, query: "rea" });
+  });
+
+  it("ignores finished mentions and email addresses", () => {
+    expect(mentionQuery("@readme ", 8)).toBeNull();
+    expect(mentionQuery("mail me@example", 15)).toBeNull();
+  });
+});
+
+describe("parseMentions", () => {
+  it("lists the known providers mentioned in a prompt, once each", () => {
+    expect(parseMentions("use @open-files and @readme, then @readme again", providers)).toEqual([
+      "open-files",
+      "readme",
+    ]);
+  });
+
+  it("ignores unknown names", () => {
+    expect(parseMentions("@nope me@readme", providers)).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { python } from "@codemirror/lang-python";
+import { EditorState } from "@codemirror/state";
+import { describe, expect, it } from "vitest";
+import { windowContext } from "../context-window";
+
+const DOC = `import os
+import sys
+
+def first():
+    return 1
+
+def second():
+    return 2
+
+def third():
+    x = 1
+    y = 2
+    return x + y
+
+def fourth():
+    return 4
+
+def fifth():
+    return 5`;
+
+/** The context around the line holding `text` */
+function around(state: EditorState, text: string, max: number, count?: (text: string) => number) {
+  const line = state.doc.lineAt(DOC.indexOf(text));
+  return windowContext(
+    state,
+    { from: 0, to: line.from },
+    { from: line.to, to: state.doc.length },
+    { max, count },
+  );
+}
+
+describe("windowContext", () => {
+  const state = EditorState.create({ doc: DOC, extensions: [python()] });
+
+  it("sends everything that fits", () => {
+    const { codeBefore, codeAfter } = around(state, "y = 2", 1000);
+    expect(`${codeBefore}    y = 2${codeAfter}`).toBe(DOC);
+  });
+
+  it("keeps the imports and whole blocks closest to the edit", () => {
+    const { codeBefore, codeAfter } = around(state, "y = 2", 110);
+
+    expect(codeBefore).toBe(
+      "import os\nimport sys\n# ...\ndef second():\n    return 2\n\ndef third():\n    x = 1\n",
+    );
+    // Adding the next function would go over the budget
+    expect(codeAfter).toBe("\n    return x + y");
+    expect(codeBefore.length + codeAfter.length).toBeLessThanOrEqual(110);
+  });
+
+  it("measures with the given tokenizer", () => {
+    const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    const { codeBefore, codeAfter } = around(state, "y = 2", 12, words);
+
+    expect(codeBefore).toBe("import os\nimport sys\n# ...\ndef third():\n    x = 1\n");
+    expect(codeAfter).toBe("");
+  });
+
+  it("keeps the types and constants declared at the top", () => {
+    const doc = `import os\n\nMAX = 10\ntype Id = int\n\ndef first():\n    return 1\n\n${DOC.slice(DOC.indexOf("def third"))}`;
+    const declared = EditorState.create({ doc, extensions: [python()] });
+    const line = declared.doc.lineAt(doc.indexOf("y = 2"));
+    const { codeBefore } = windowContext(
+      declared,
+      { from: 0, to: line.from },
+      { from: line.to, to: doc.length },
+      { max: 90 },
+    );
+
+    // The function after them is code like any other, too far to be kept
+    expect(codeBefore).toBe(
+      "import os\n\nMAX = 10\ntype Id = int\n# ...\ndef third():\n    x = 1\n",
+    );
+
+    // With less room, as many of them as fit in half the budget
+    const small = windowContext(
+      declared,
+      { from: 0, to: line.from },
+      { from: line.to, to: doc.length },
+      { max: 40 },
+    );
+    expect(small.codeBefore.startsWith("import os\n\nMAX = 10\n# ...\n")).toBe(true);
+  });
+
+  it("cuts between lines without a syntax tree", () => {
+    const plain = EditorState.create({ doc: DOC });
+    const { codeBefore, codeAfter } = around(plain, "y = 2", 30);
+
+    expect(codeBefore).toBe("\ndef third():\n    x = 1\n");
+    expect(codeAfter).toBe("");
+  });
+});
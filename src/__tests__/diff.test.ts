@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { diffHunks } from "../diff";
+
+/** Apply the inverse of every hunk to `newText`, which should give back `oldText` */
+function revertAll(oldText: string, newText: string) {
+  let result = newText;
+  for (const hunk of diffHunks(oldText, newText).reverse()) {
+    result =
+      result.slice(0, hunk.newFrom) +
+      oldText.slice(hunk.oldFrom, hunk.oldTo) +
+      result.slice(hunk.newTo);
+  }
+  return result;
+}
+
+describe("diffHunks", () => {
+  it("returns no hunks for identical texts", () => {
+    expect(diffHunks("a\nb", "a\nb")).toEqual([]);
+  });
+
+  it("marks the changed word of a modified line", () => {
+    const [hunk, ...rest] = diffHunks("x = foo(1)\ny = 2", "x = bar(1)\ny = 2");
+    expect(rest).toEqual([]);
+    expect(hunk).toMatchObject({
+      oldLineFrom: 0,
+      oldLineTo: 1,
+      newLineFrom: 0,
+      newLineTo: 1,
+      oldWords: [{ from: 4, to: 7 }],
+      newWords: [{ from: 4, to: 7 }],
+    });
+  });
+
+  it("does not mark words of lines that were replaced outright", () => {
+    const [hunk] = diffHunks("first\nkeep", "completely different\nkeep");
+    expect(hunk).toMatchObject({ oldWords: [], newWords: [] });
+  });
+
+  it("finds separate hunks around unchanged lines", () => {
+    const hunks = diffHunks("a\nb\nc\nd\ne", "A\nb\nc\nD\ne");
+    expect(hunks.map((h) => [h.oldLineFrom, h.oldLineTo, h.newLineFrom, h.newLineTo])).toEqual([
+      [0, 1, 0, 1],
+      [3, 4, 3, 4],
+    ]);
+  });
+
+  it("reports inserted and deleted lines", () => {
+    const [inserted] = diffHunks("a\nc", "a\nb\nc");
+    expect(inserted).toMatchObject({ oldLineFrom: 1, oldLineTo: 1, newLineFrom: 1, newLineTo: 2 });
+    const [deleted] = diffHunks("a\nb\nc", "a\nc");
+    expect(deleted).toMatchObject({ oldLineFrom: 1, oldLineTo: 2, newLineFrom: 1, newLineTo: 1 });
+  });
+
+  it.each([
+    ["a\nb\nc", "a\nB\nc"],
+    ["a\nc", "a\nb\nc"],
+    ["a\nb\nc", "a\nc"],
+    ["a\nb", "a\nb\nc\nd"],
+    ["a\nb\nc\nd", "a\nb"],
+    ["a\nb", "z\na\nb"],
+    ["z\na\nb", "a\nb"],
+    ["", "a\nb"],
+    ["a\nb", ""],
+    ["one two\nthree", "one 2\nthree\nfour"],
+  ])("hunk ranges revert %j -> %j", (oldText, newText) => {
+    expect(revertAll(oldText, newText)).toBe(oldText);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { AiError } from "../errors";
+
+describe("AiError.from", () => {
+  it("categorizes errors by HTTP status and name", () => {
+    const limited = Object.assign(new Error("Request failed"), { status: 429 });
+    expect(AiError.from(limited).category).toBe("rate-limit");
+    expect(AiError.from({ response: { status: 504 } }).category).toBe("timeout");
+    expect(AiError.from(new DOMException("signal timed out", "TimeoutError")).category).toBe(
+      "timeout",
+    );
+  });
+
+  it("falls back to the message", () => {
+    expect(AiError.from(new TypeError("Failed to fetch")).category).toBe("network");
+    expect(AiError.from(new Error("connect ECONNREFUSED 127.0.0.1:11434")).category).toBe(
+      "network",
+    );
+    expect(AiError.from("Rate limit exceeded").category).toBe("rate-limit");
+    expect(AiError.from(new Error("Model not found")).category).toBe("unknown");
+  });
+
+  it("keeps the original error as the cause", () => {
+    const cause = new Error("boom");
+    const error = AiError.from(cause);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe("boom");
+    expect(error.cause).toBe(cause);
+    expect(AiError.from(error)).toBe(error);
+  });
+});
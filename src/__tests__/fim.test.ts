@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { fimPrompt, fimTokenPresets, resolveFimTokens, trimAtStopTokens } from "../fim";
+
+describe("fimPrompt", () => {
+  it("puts the code between the sentinel tokens", () => {
+    expect(fimPrompt("def f(", "):", fimTokenPresets.starcoder)).toBe(
+      "<fim_prefix>def f(<fim_suffix>):<fim_middle>",
+    );
+    expect(fimPrompt("a", "b", resolveFimTokens("codellama"))).toBe("<PRE> a <SUF>b <MID>");
+  });
+
+  it("takes tokens of your own", () => {
+    const tokens = { prefix: "[P]", suffix: "[S]", middle: "[M]" };
+    expect(fimPrompt("a", "b", resolveFimTokens(tokens))).toBe("[P]a[S]b[M]");
+  });
+});
+
+describe("trimAtStopTokens", () => {
+  it("cuts the answer off at the first stop token", () => {
+    const tokens = fimTokenPresets.qwen;
+    expect(trimAtStopTokens("x = 1<|file_sep|>y<|endoftext|>", tokens)).toBe("x = 1");
+    expect(trimAtStopTokens("x = 1", tokens)).toBe("x = 1");
+    expect(trimAtStopTokens("x = 1", { prefix: "", suffix: "", middle: "" })).toBe("x = 1");
+  });
+});
@@ -6,36 +6,79 @@ describe("index.ts exports", () => {
     const sortedExports = Object.keys(exports).sort();
     expect(sortedExports).toMatchInlineSnapshot(`
       [
+        "AiError",
         "acceptAiEdit",
+        "acceptAiEditHunk",
+        "acceptAllAiEdits",
         "acceptInlineCompletion",
+        "acceptInlineCompletionLine",
+        "acceptInlineCompletionWord",
+        "addPromptToHistory",
         "aiAutocomplete",
         "aiExtension",
-        "aiTheme",
+        "anthropicProvider",
+        "applyTheme",
         "closeAiEditInput",
         "completionState",
+        "completionsState",
+        "contextProviders",
+        "createInitialTheme",
+        "darkTheme",
+        "defaultAutocompletePrompt",
         "defaultKeymaps",
+        "defaultPostProcessors",
+        "defaultSlashCommands",
         "defaultTriggerRenderer",
+        "editMessages",
+        "fimTokenPresets",
         "inlineCompletion",
         "inlineCompletionKeymap",
         "inputPromptDecoration",
         "inputState",
         "inputValueState",
+        "lightTheme",
         "lineShiftListener",
         "loadingState",
+        "localStoragePromptHistory",
+        "memoryPromptHistory",
         "newCodeDecoration",
+        "nextAiEditCandidate",
+        "nextAiEditHunk",
+        "nextInlineCompletion",
+        "normalizeTrailingNewline",
         "oldCodeDecoration",
+        "ollamaProvider",
+        "openAiProvider",
         "optionsFacet",
+        "previousAiEditCandidate",
+        "previousAiEditHunk",
+        "previousInlineCompletion",
+        "promptMessages",
+        "refineAiEdit",
+        "reindent",
         "rejectAiEdit",
+        "rejectAiEditHunk",
+        "rejectAllAiEdits",
         "rejectInlineCompletion",
+        "removeCompletion",
+        "renderAutocompletePrompt",
+        "repairAiEdit",
+        "restoreCompletions",
         "setInputFocus",
+        "setInputMentions",
         "setInputValue",
         "setLoading",
+        "setPromptHistory",
         "showAiEditInput",
         "showCompletion",
         "showInput",
+        "stopAiEdit",
+        "stripCodeFences",
+        "syntaxIssues",
         "triggerOptions",
         "triggerPlugin",
         "triggerViewPlugin",
+        "trimProse",
       ]
     `);
   });
@@ -3,9 +3,14 @@ import { EditorView } from "@codemirror/view";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
   acceptInlineCompletion,
+  acceptInlineCompletionLine,
+  acceptInlineCompletionWord,
   inlineCompletion,
+  nextInlineCompletion,
+  previousInlineCompletion,
   rejectInlineCompletion,
 } from "../inline-completion";
+import { stripCodeFences } from "../post-process";
 
 describe("inline-completion", () => {
   let view: EditorView;
@@ -66,6 +71,69 @@ describe("inline-completion", () => {
     expect(view.state.doc.toString()).toContain("suggestion");
   });
 
+  it("should accept inline completion word by word and line by line", async () => {
+    mockFetchFn.mockResolvedValueOnce("there, you\nall");
+    view.dispatch({
+      changes: { from: 5, to: 5, insert: " " },
+      selection: { anchor: 6 },
+    });
+    await vi.runAllTimersAsync();
+
+    expect(acceptInlineCompletionWord(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe("Hello there world");
+    expect(view.state.selection.main.head).toBe(11);
+
+    // The rest stays shown at the cursor, without fetching again
+    await vi.runAllTimersAsync();
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+    expect(view.dom.querySelector(".cm-inline-suggestion")?.textContent).toBe(", you\nall");
+
+    expect(acceptInlineCompletionWord(view)).toBe(true);
+    expect(acceptInlineCompletionLine(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe("Hello there, you\n world");
+    expect(view.dom.querySelector(".cm-inline-suggestion")?.textContent).toBe("all");
+
+    expect(acceptInlineCompletionLine(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe("Hello there, you\nall world");
+    expect(acceptInlineCompletionWord(view)).toBe(false);
+  });
+
+  it("should cycle through several candidates", async () => {
+    mockFetchFn.mockResolvedValueOnce(["there", "you", "there", ""]);
+    view.dispatch({
+      changes: { from: 5, to: 5, insert: " " },
+      selection: { anchor: 6 },
+    });
+    await vi.runAllTimersAsync();
+
+    const count = () => view.dom.querySelector(".cm-inline-suggestion-count")?.textContent;
+    expect(view.dom.querySelector(".cm-inline-suggestion")?.textContent).toBe("there");
+    expect(count()).toBe("1/2");
+
+    expect(nextInlineCompletion(view)).toBe(true);
+    expect(view.dom.querySelector(".cm-inline-suggestion")?.textContent).toBe("you");
+    expect(count()).toBe("2/2");
+    expect(nextInlineCompletion(view)).toBe(true);
+    expect(count()).toBe("1/2");
+    expect(previousInlineCompletion(view)).toBe(true);
+    expect(count()).toBe("2/2");
+
+    // The candidate shown is the one accepted
+    expect(acceptInlineCompletion(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe("Hello you world");
+    expect(count()).toBeUndefined();
+  });
+
+  it("should not cycle through a single suggestion", async () => {
+    view.dispatch({
+      changes: { from: 5, to: 5, insert: " " },
+    });
+    await vi.runAllTimersAsync();
+
+    expect(nextInlineCompletion(view)).toBe(false);
+    expect(view.dom.querySelector(".cm-inline-suggestion-count")).toBeNull();
+  });
+
   it("should reject inline completion", async () => {
     // Set up a suggestion
     view.dispatch({
@@ -155,6 +223,24 @@ describe("inline-completion events", () => {
     expect(mockEvents.onSuggestionAccepted).toHaveBeenCalledWith(
       expect.any(EditorView),
       "suggestion",
+      "suggestion",
+    );
+  });
+
+  it("should report the part accepted to onSuggestionAccepted", async () => {
+    mockFetchFn.mockResolvedValueOnce("one two");
+    view.dispatch({
+      changes: { from: 5, to: 5, insert: " " },
+      selection: { anchor: 6 },
+    });
+    await vi.runAllTimersAsync();
+
+    acceptInlineCompletionWord(view);
+
+    expect(mockEvents.onSuggestionAccepted).toHaveBeenCalledWith(
+      expect.any(EditorView),
+      "one two",
+      "one",
     );
   });
 
@@ -173,6 +259,33 @@ describe("inline-completion events", () => {
     );
   });
 
+  it("should only show the candidates shouldShowSuggestion allows", async () => {
+    const shouldShowSuggestion = vi.fn((_: EditorView, text: string) => text !== "bad");
+    const filtered = new EditorView({
+      state: EditorState.create({
+        doc: "Hello world",
+        extensions: [
+          inlineCompletion({
+            fetchFn: async () => ["bad", "good"],
+            delay: 0,
+            events: { ...mockEvents, shouldShowSuggestion },
+          }),
+        ],
+      }),
+      parent: document.createElement("div"),
+    });
+    filtered.dispatch({ changes: { from: 5, to: 5, insert: " " } });
+    await vi.runAllTimersAsync();
+
+    expect(shouldShowSuggestion).toHaveBeenCalledTimes(2);
+    expect(filtered.dom.querySelector(".cm-inline-suggestion")?.textContent).toBe("good");
+    expect(nextInlineCompletion(filtered)).toBe(false);
+
+    rejectInlineCompletion(filtered);
+    expect(mockEvents.onSuggestionRejected).toHaveBeenCalledWith(expect.any(EditorView), "good");
+    filtered.destroy();
+  });
+
   it("should call beforeSuggestionFetch before fetching suggestions", async () => {
     view.dispatch({
       changes: { from: 5, to: 5, insert: " " },
@@ -258,4 +371,29 @@ describe("inline-completion cache", () => {
 
     expect(mockFetchFn).toHaveBeenCalledTimes(2);
   });
+
+  it("should post-process suggestions", async () => {
+    const postProcessed = new EditorView({
+      state: EditorState.create({
+        doc: "Hello world",
+        extensions: [
+          inlineCompletion({
+            fetchFn: async () => "```\n there\n```",
+            delay: 0,
+            postProcessors: [stripCodeFences],
+          }),
+        ],
+      }),
+      parent: document.createElement("div"),
+    });
+    postProcessed.dispatch({
+      changes: { from: 5, to: 5, insert: "," },
+      selection: { anchor: 6 },
+    });
+    await vi.runAllTimersAsync();
+
+    expect(acceptInlineCompletion(postProcessed)).toBe(true);
+    expect(postProcessed.state.doc.toString()).toBe("Hello, there world");
+    postProcessed.destroy();
+  });
 });
@@ -0,0 +1,1389 @@
+import { history, redo, undo, undoDepth } from "@codemirror/commands";
+import { python } from "@codemirror/lang-python";
+import { EditorSelection, EditorState, StateEffect } from "@codemirror/state";
+import { EditorView, runScopeHandlers } from "@codemirror/view";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  acceptAiEdit,
+  acceptAiEditHunk,
+  acceptAllAiEdits,
+  nextAiEditCandidate,
+  nextAiEditHunk,
+  previousAiEditCandidate,
+  previousAiEditHunk,
+  rejectAiEdit,
+  rejectAiEditHunk,
+  rejectAllAiEdits,
+  showAiEditInput,
+  stopAiEdit,
+} from "../commands";
+import { AiError } from "../errors";
+import { aiExtension } from "../inline-edit";
+import { localStoragePromptHistory, memoryPromptHistory } from "../prompt-history";
+import { editMessages, openAiProvider } from "../providers";
+import {
+  type AiOptions,
+  type CompleteFunction,
+  completionState,
+  completionsState,
+  contextProviders,
+  inputState,
+  inputValueState,
+  loadingState,
+} from "../state";
+
+const DOC = "def foo():\n    return 1\n\nprint(foo())";
+
+function createEditor(prompt: CompleteFunction, options: Partial<AiOptions> = {}) {
+  const parent = document.createElement("div");
+  document.body.appendChild(parent);
+  return new EditorView({
+    state: EditorState.create({
+      doc: DOC,
+      extensions: [aiExtension({ prompt, onError: vi.fn(), ...options })],
+    }),
+    parent,
+  });
+}
+
+/**
+ * Select the given range, open the prompt input and submit `text`
+ */
+async function submitPrompt(view: EditorView, from: number, to: number, text = "change it") {
+  view.dispatch({ selection: EditorSelection.single(from, to) });
+  showAiEditInput(view);
+  const input = view.dom.querySelector<HTMLInputElement>(".cm-ai-input");
+  if (!input) throw new Error("input not rendered");
+  input.value = text;
+  input.dispatchEvent(new Event("input"));
+  input.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter" }));
+  await flush();
+}
+
+async function flush() {
+  for (let i = 0; i < 10; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
+
+/**
+ * A stream that yields each chunk once it is pushed
+ */
+function controlledStream() {
+  const queue: Array<(value: IteratorResult<string>) => void> = [];
+  const stream: AsyncIterable<string> = {
+    [Symbol.asyncIterator]: () => ({
+      next: () => new Promise((resolve) => queue.push(resolve)),
+      return: async () => ({ done: true, value: undefined }),
+    }),
+  };
+  return {
+    stream,
+    async push(chunk: string) {
+      queue.shift()?.({ done: false, value: chunk });
+      await flush();
+    },
+    async end() {
+      queue.shift()?.({ done: true, value: undefined });
+      await flush();
+    },
+  };
+}
+
+describe("aiExtension", () => {
+  let view: EditorView;
+
+  afterEach(() => {
+    view?.destroy();
+    document.body.innerHTML = "";
+  });
+
+  it("replaces the selected lines with the completion", async () => {
+    view = createEditor(async () => "def bar():\n    return 2");
+    await submitPrompt(view, 0, 5);
+
+    expect(view.state.doc.toString()).toBe(`def bar():\n    return 2\n${DOC.slice(11)}`);
+    expect(view.state.field(completionState)).toMatchObject({
+      from: 0,
+      to: 23,
+      oldCode: "def foo():",
+    });
+    expect(view.state.field(inputState).show).toBe(false);
+  });
+
+  it("renders a line and word diff of the pending edit", async () => {
+    view = createEditor(async () => "def foo():\n    return 2");
+    await submitPrompt(view, 0, 20);
+
+    const newLines = view.dom.querySelectorAll(".cm-line.cm-new-code-line");
+    expect([...newLines].map((line) => line.textContent)).toEqual(["    return 2"]);
+    const added = view.dom.querySelectorAll(".cm-diff-highlight-add");
+    expect([...added].map((word) => word.textContent)).toEqual(["2"]);
+
+    const oldCode = view.dom.querySelectorAll(".cm-old-code");
+    expect([...oldCode].map((el) => el.textContent)).toEqual(["    return 1"]);
+    const removed = view.dom.querySelectorAll(".cm-diff-highlight-remove");
+    expect([...removed].map((word) => word.textContent)).toEqual(["1"]);
+    expect(view.dom.querySelectorAll(".cm-floating-accept")).toHaveLength(1);
+  });
+
+  it("sends the language of the edited code", async () => {
+    const prompt = vi.fn<CompleteFunction>(async () => "def bar():");
+    view = createEditor(prompt);
+    view.dispatch({ effects: StateEffect.appendConfig.of(python()) });
+    await submitPrompt(view, 0, 5);
+
+    expect(prompt).toHaveBeenCalledWith(
+      expect.objectContaining({
+        language: {
+          name: "python",
+          indentUnit: "  ",
+          lineComment: "#",
+          enclosingNodes: ["FunctionDefinition"],
+        },
+      }),
+    );
+  });
+
+  it("trims the code around the edit to the context budget", async () => {
+    const prompt = vi.fn<CompleteFunction>(async () => "def bar():");
+    view = createEditor(prompt, { contextBudget: 14 });
+    await submitPrompt(view, 0, 5);
+
+    expect(prompt).toHaveBeenCalledWith(
+      expect.objectContaining({ codeBefore: "", codeAfter: "\n    return 1\n" }),
+    );
+  });
+
+  describe("errors", () => {
+    it("shows a failed request in the input, with a retry button", async () => {
+      const onError = vi.fn();
+      const prompt = vi
+        .fn<CompleteFunction>()
+        .mockRejectedValueOnce(Object.assign(new Error("Too Many Requests"), { status: 429 }))
+        .mockResolvedValueOnce("def bar():");
+      view = createEditor(prompt, { onError, requestPolicy: { retries: 0 } });
+      await submitPrompt(view, 0, 5);
+
+      expect(onError).toHaveBeenCalledWith(expect.any(AiError));
+      expect(onError.mock.calls[0]?.[0]).toMatchObject({ category: "rate-limit" });
+      const notice = view.dom.querySelector<HTMLElement>(".cm-ai-input-error");
+      expect(notice?.dataset.category).toBe("rate-limit");
+      expect(notice?.textContent).toContain("Too many requests");
+      expect(view.state.field(inputState).show).toBe(true);
+
+      const [retry] = view.dom.querySelectorAll<HTMLButtonElement>(".cm-ai-input-error-button");
+      retry?.click();
+      await flush();
+      expect(prompt).toHaveBeenCalledTimes(2);
+      expect(view.state.doc.line(1).text).toBe("def bar():");
+    });
+
+    it("retries retryable errors before giving up", async () => {
+      const onError = vi.fn();
+      const prompt = vi
+        .fn<CompleteFunction>()
+        .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+        .mockResolvedValueOnce("def bar():");
+      view = createEditor(prompt, { onError, requestPolicy: { retries: 1, retryDelay: 0 } });
+      await submitPrompt(view, 0, 5);
+
+      expect(prompt).toHaveBeenCalledTimes(2);
+      expect(onError).not.toHaveBeenCalled();
+      expect(view.state.doc.line(1).text).toBe("def bar():");
+    });
+
+    it("times out requests that hang", async () => {
+      let signal: AbortSignal | undefined;
+      view = createEditor(
+        (opts) => {
+          signal = opts.signal;
+          return new Promise(() => {});
+        },
+        { requestPolicy: { timeout: 5, retries: 0 } },
+      );
+      await submitPrompt(view, 0, 5);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await flush();
+
+      expect(signal?.aborted).toBe(true);
+      expect(view.dom.querySelector<HTMLElement>(".cm-ai-input-error")?.dataset.category).toBe(
+        "timeout",
+      );
+      expect(view.state.field(loadingState)).toBe(false);
+    });
+
+    it("times out streams that never start", async () => {
+      const onError = vi.fn();
+      view = createEditor(
+        async function* () {
+          yield* [];
+          await new Promise(() => {});
+        },
+        { onError, requestPolicy: { timeout: 5, retries: 0 } },
+      );
+      await submitPrompt(view, 0, 5);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await flush();
+
+      expect(onError.mock.calls[0]?.[0]).toMatchObject({ category: "timeout" });
+      expect(view.state.field(loadingState)).toBe(false);
+    });
+
+    it("lets the prompt be edited before submitting again", async () => {
+      view = createEditor(async () => "");
+      await submitPrompt(view, 0, 5);
+
+      const notice = view.dom.querySelector<HTMLElement>(".cm-ai-input-error");
+      expect(notice?.dataset.category).toBe("invalid-output");
+      const [, edit] = view.dom.querySelectorAll<HTMLButtonElement>(".cm-ai-input-error-button");
+      edit?.click();
+      expect(view.dom.querySelector(".cm-ai-input-error")).toBeNull();
+      expect(document.activeElement).toBe(view.dom.querySelector(".cm-ai-input"));
+    });
+  });
+
+  describe("insertion", () => {
+    // The cursor is at the empty line between the function and the call
+    const CURSOR = DOC.indexOf("\n\n") + 1;
+
+    it("inserts at the cursor when nothing is selected", async () => {
+      const prompt = vi.fn<CompleteFunction>(async () => "x = 1");
+      view = createEditor(prompt);
+      await submitPrompt(view, CURSOR, CURSOR, "add x");
+
+      expect(prompt).toHaveBeenCalledWith(
+        expect.objectContaining({
+          selection: "",
+          codeBefore: DOC.slice(0, CURSOR),
+          codeAfter: DOC.slice(CURSOR),
+        }),
+      );
+      expect(view.state.doc.toString()).toBe(`${DOC.slice(0, CURSOR)}x = 1${DOC.slice(CURSOR)}`);
+      expect(view.state.field(completionState)).toMatchObject({
+        from: CURSOR,
+        to: CURSOR + 5,
+        oldCode: "",
+      });
+      const newLines = view.dom.querySelectorAll(".cm-line.cm-new-code-line");
+      expect([...newLines].map((line) => line.textContent)).toEqual(["x = 1"]);
+      expect(view.dom.querySelectorAll(".cm-old-code")).toHaveLength(0);
+      expect(view.dom.querySelectorAll(".cm-floating-accept")).toHaveLength(1);
+    });
+
+    it("sends the code around the cursor through a provider", async () => {
+      const fetch = vi.fn<typeof globalThis.fetch>(
+        async () => new Response(JSON.stringify({ choices: [{ message: { content: "x = 1" } }] })),
+      );
+      const provider = openAiProvider({ model: "gpt", stream: false, fetch });
+      view = createEditor(provider.complete);
+      await submitPrompt(view, CURSOR, CURSOR, "add x");
+
+      const body = JSON.parse(String(fetch.mock.calls[0]?.[1]?.body));
+      expect(body.messages).toEqual(
+        editMessages({
+          prompt: "add x",
+          selection: "",
+          codeBefore: DOC.slice(0, CURSOR),
+          codeAfter: DOC.slice(CURSOR),
+          editorView: view,
+        }),
+      );
+      expect(body.messages[1].content).toContain(`<code_before>\n${DOC.slice(0, CURSOR)}`);
+      expect(view.state.doc.toString()).toBe(`${DOC.slice(0, CURSOR)}x = 1${DOC.slice(CURSOR)}`);
+    });
+
+    it("highlights text inserted within a line", async () => {
+      view = createEditor(async () => "bar, ");
+      const pos = DOC.indexOf("foo())") + 4;
+      await submitPrompt(view, pos, pos);
+
+      expect(view.state.doc.line(4).text).toBe("print(foo(bar, ))");
+      expect(view.dom.querySelectorAll(".cm-new-code-line")).toHaveLength(0);
+      const added = view.dom.querySelectorAll(".cm-new-code-text");
+      expect([...added].map((word) => word.textContent)).toEqual(["bar, "]);
+    });
+
+    it("removes the insertion when rejected", async () => {
+      view = createEditor(async () => "x = 1\ny = 2\n");
+      await submitPrompt(view, CURSOR, CURSOR);
+
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe(DOC);
+    });
+
+    it("only opens the prompt with a selection for the showInput key", () => {
+      view = createEditor(async () => "x = 1");
+      view.dispatch({ selection: EditorSelection.cursor(CURSOR) });
+      const at = new KeyboardEvent("keydown", { key: "@" });
+      expect(runScopeHandlers(view, at, "editor")).toBe(false);
+      expect(view.state.field(inputState).show).toBe(false);
+
+      const modK = new KeyboardEvent("keydown", { key: "k", ctrlKey: true });
+      expect(runScopeHandlers(view, modK, "editor")).toBe(true);
+      expect(view.state.field(inputState)).toMatchObject({
+        show: true,
+        range: { from: CURSOR, to: CURSOR },
+      });
+    });
+  });
+
+  describe("exact selection ranges", () => {
+    const ONE = DOC.indexOf("1");
+
+    it("replaces just the selected text", async () => {
+      const prompt = vi.fn<CompleteFunction>(async () => "42");
+      view = createEditor(prompt, { editRange: "selection" });
+      await submitPrompt(view, ONE, ONE + 1);
+
+      expect(prompt).toHaveBeenCalledWith(
+        expect.objectContaining({
+          selection: "1",
+          codeBefore: DOC.slice(0, ONE),
+          codeAfter: DOC.slice(ONE + 1),
+        }),
+      );
+      expect(view.state.doc.line(2).text).toBe("    return 42");
+      expect(view.state.field(completionState)).toMatchObject({
+        from: ONE,
+        to: ONE + 2,
+        oldCode: "1",
+        newCode: "42",
+      });
+    });
+
+    it("shows the removed text inline", async () => {
+      view = createEditor(async () => "42", { editRange: "selection" });
+      await submitPrompt(view, ONE, ONE + 1);
+
+      expect(view.dom.querySelector(".cm-old-code-inline")?.textContent).toBe("1");
+      expect(view.dom.querySelector(".cm-new-code-text")?.textContent).toBe("42");
+      expect(view.dom.querySelectorAll(".cm-new-code-line")).toHaveLength(0);
+      expect(view.dom.querySelectorAll(".cm-old-code")).toHaveLength(0);
+
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe(DOC);
+    });
+
+    it("keeps the range in place when the text before it changes", () => {
+      view = createEditor(async () => "42", { editRange: "selection" });
+      view.dispatch({ selection: EditorSelection.single(ONE, ONE + 1) });
+      showAiEditInput(view);
+      view.dispatch({ changes: { from: 0, insert: "# comment\n" } });
+
+      expect(view.state.field(inputState)).toMatchObject({
+        lineFrom: 3,
+        lineTo: 3,
+        range: { from: ONE + 10, to: ONE + 11 },
+      });
+    });
+
+    it("still widens the selection to whole lines by default", async () => {
+      const prompt = vi.fn<CompleteFunction>(async () => "    return 42");
+      view = createEditor(prompt);
+      await submitPrompt(view, ONE, ONE + 1);
+
+      expect(prompt).toHaveBeenCalledWith(expect.objectContaining({ selection: "    return 1" }));
+      expect(view.state.doc.line(2).text).toBe("    return 42");
+    });
+  });
+
+  describe("candidates", () => {
+    const CANDIDATES = ["def a():", "def b():", "def c():"];
+
+    it("asks for the configured number of candidates", async () => {
+      const prompt = vi.fn<CompleteFunction>(async () => CANDIDATES);
+      view = createEditor(prompt, { candidates: 3 });
+      await submitPrompt(view, 0, 5);
+
+      expect(prompt).toHaveBeenCalledWith(expect.objectContaining({ n: 3 }));
+      expect(view.state.doc.line(1).text).toBe("def a():");
+      expect(view.state.field(completionState)).toMatchObject({
+        candidates: CANDIDATES,
+        candidate: 0,
+      });
+      expect(view.dom.querySelector(".cm-ai-candidate-count")?.textContent).toBe("1 of 3");
+    });
+
+    it("cycles through the candidates, wrapping around", async () => {
+      view = createEditor(async () => CANDIDATES, { candidates: 3 });
+      await submitPrompt(view, 0, 5);
+
+      expect(nextAiEditCandidate(view)).toBe(true);
+      expect(view.state.doc.line(1).text).toBe("def b():");
+      expect(view.dom.querySelector(".cm-ai-candidate-count")?.textContent).toBe("2 of 3");
+      expect(previousAiEditCandidate(view)).toBe(true);
+      expect(previousAiEditCandidate(view)).toBe(true);
+      expect(view.state.doc.line(1).text).toBe("def c():");
+      expect(view.state.field(completionState)?.candidate).toBe(2);
+    });
+
+    it("accepts and rejects the candidate being shown", async () => {
+      view = createEditor(async () => CANDIDATES, { candidates: 3 });
+      await submitPrompt(view, 0, 5);
+      nextAiEditCandidate(view);
+      expect(acceptAiEdit(view)).toBe(true);
+      expect(view.state.doc.line(1).text).toBe("def b():");
+
+      await submitPrompt(view, 0, 5);
+      previousAiEditCandidate(view);
+      expect(view.state.doc.line(1).text).toBe("def c():");
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.line(1).text).toBe("def b():");
+    });
+
+    it("shows no switcher for a single proposal", async () => {
+      view = createEditor(async () => ["def a():", "def a():"]);
+      await submitPrompt(view, 0, 5);
+
+      expect(view.state.field(completionState)?.candidates).toBeUndefined();
+      expect(view.dom.querySelector(".cm-ai-candidates")).toBeNull();
+      expect(nextAiEditCandidate(view)).toBe(false);
+    });
+  });
+
+  describe("several selections", () => {
+    /** Open the prompt for the given selections and submit it */
+    async function submitToSelections(view: EditorView, ranges: Array<[number, number]>) {
+      view.dispatch({
+        effects: StateEffect.appendConfig.of(EditorState.allowMultipleSelections.of(true)),
+      });
+      view.dispatch({
+        selection: EditorSelection.create(
+          ranges.map(([from, to]) => EditorSelection.range(from, to)),
+        ),
+      });
+      showAiEditInput(view);
+      const input = view.dom.querySelector<HTMLInputElement>(".cm-ai-input");
+      if (!input) throw new Error("input not rendered");
+      input.value = "shout";
+      input.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter" }));
+      await flush();
+    }
+
+    const shout: CompleteFunction = async ({ selection }) => selection.toUpperCase();
+
+    it("sends one request per selection and shows an edit for each", async () => {
+      const prompt = vi.fn(shout);
+      view = createEditor(prompt);
+      await submitToSelections(view, [
+        [0, 3],
+        [25, 30],
+      ]);
+
+      expect(prompt).toHaveBeenCalledTimes(2);
+      expect(prompt.mock.calls.map(([opts]) => opts.selection)).toEqual([
+        "def foo():",
+        "print(foo())",
+      ]);
+      expect(view.state.doc.toString()).toBe("DEF FOO():\n    return 1\n\nPRINT(FOO())");
+      expect(view.state.field(completionsState)).toMatchObject([
+        { from: 0, to: 10, oldCode: "def foo():" },
+        { from: 25, to: 37, oldCode: "print(foo())" },
+      ]);
+      expect(view.dom.querySelectorAll(".cm-floating-accept")).toHaveLength(2);
+      expect(view.dom.querySelectorAll(".cm-floating-accept-all")).toHaveLength(1);
+    });
+
+    it("accepts or rejects the edit at the cursor, keeping the others", async () => {
+      view = createEditor(shout);
+      await submitToSelections(view, [
+        [0, 3],
+        [25, 30],
+      ]);
+
+      view.dispatch({ selection: { anchor: 30 } });
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe("DEF FOO():\n    return 1\n\nprint(foo())");
+      expect(view.state.field(completionsState)).toHaveLength(1);
+
+      expect(acceptAiEdit(view)).toBe(true);
+      expect(view.state.doc.line(1).text).toBe("DEF FOO():");
+      expect(view.state.field(completionsState)).toHaveLength(0);
+    });
+
+    it("accepts and rejects all edits at once", async () => {
+      view = createEditor(shout);
+      await submitToSelections(view, [
+        [0, 3],
+        [25, 30],
+      ]);
+      expect(acceptAllAiEdits(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe("DEF FOO():\n    return 1\n\nPRINT(FOO())");
+      expect(view.state.field(completionsState)).toHaveLength(0);
+
+      await submitToSelections(view, [
+        [11, 15],
+        [25, 30],
+      ]);
+      expect(view.state.doc.toString()).toBe("DEF FOO():\n    RETURN 1\n\nPRINT(FOO())");
+      expect(rejectAllAiEdits(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe("DEF FOO():\n    return 1\n\nPRINT(FOO())");
+      expect(view.state.field(completionState)).toBeNull();
+    });
+
+    it("keeps the other edits in place when one changes size", async () => {
+      view = createEditor(async ({ selection }) =>
+        selection.startsWith("def") ? "def foo():\n    pass" : selection.toUpperCase(),
+      );
+      await submitToSelections(view, [
+        [0, 3],
+        [25, 30],
+      ]);
+
+      const [first, second] = view.state.field(completionsState);
+      expect(view.state.sliceDoc(first?.from, first?.to)).toBe("def foo():\n    pass");
+      expect(view.state.sliceDoc(second?.from, second?.to)).toBe("PRINT(FOO())");
+
+      view.dispatch({ selection: { anchor: 0 } });
+      rejectAiEdit(view);
+      const [remaining] = view.state.field(completionsState);
+      expect(view.state.sliceDoc(remaining?.from, remaining?.to)).toBe("PRINT(FOO())");
+    });
+  });
+
+  describe("concurrent changes", () => {
+    it("keeps a pending edit in place when code is added above it", async () => {
+      view = createEditor(async () => "PRINT(FOO())");
+      await submitPrompt(view, 25, 30);
+      view.dispatch({ changes: { from: 0, insert: "# header\n" } });
+
+      expect(view.state.field(completionState)).toMatchObject({ from: 34, to: 46 });
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe(`# header\n${DOC}`);
+    });
+
+    it("marks an edit whose code was changed as conflicted", async () => {
+      view = createEditor(async () => "def bar():");
+      await submitPrompt(view, 0, 5);
+      view.dispatch({ changes: { from: 4, to: 7, insert: "baz" } });
+
+      expect(view.state.field(completionState)?.conflict).toBe(true);
+      expect(view.dom.querySelector(".cm-ai-conflict")).not.toBeNull();
+      expect(view.dom.querySelector(".cm-floating-accept")).toBeNull();
+      expect(nextAiEditHunk(view)).toBe(false);
+
+      // Rejecting can't put the old code back, so it just dismisses the edit
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.line(1).text).toBe("def baz():");
+      expect(view.state.field(completionState)).toBeNull();
+    });
+
+    it("stops streaming into an edit whose code was changed", async () => {
+      const { stream, push } = controlledStream();
+      let signal: AbortSignal | undefined;
+      view = createEditor((opts) => {
+        signal = opts.signal;
+        return stream;
+      });
+      await submitPrompt(view, 0, 5);
+      await push("def b");
+      view.dispatch({ changes: { from: 0, to: 3, insert: "async def" } });
+
+      expect(signal?.aborted).toBe(true);
+      expect(view.state.field(completionState)).toMatchObject({
+        conflict: true,
+        streaming: false,
+      });
+      await push("ar():");
+      expect(view.state.doc.line(1).text).toBe("async def b");
+    });
+
+    it("drops the result when the code changed while it was generated", async () => {
+      let signal: AbortSignal | undefined;
+      let resolve: (value: string) => void = () => {};
+      view = createEditor((opts) => {
+        signal = opts.signal;
+        return new Promise<string>((r) => {
+          resolve = r;
+        });
+      });
+      await submitPrompt(view, 0, 5);
+      view.dispatch({ changes: { from: 4, to: 7, insert: "baz" } });
+      resolve("def bar():");
+      await flush();
+
+      expect(signal?.aborted).toBe(true);
+      expect(view.state.doc.line(1).text).toBe("def baz():");
+      expect(view.state.field(completionState)).toBeNull();
+      expect(view.state.field(inputState)).toMatchObject({ show: true, conflict: true });
+      expect(view.dom.querySelector(".cm-ai-input-notice")).not.toBeNull();
+    });
+
+    it("applies the result where the code moved to while it was generated", async () => {
+      let resolve: (value: string) => void = () => {};
+      view = createEditor(
+        () =>
+          new Promise<string>((r) => {
+            resolve = r;
+          }),
+      );
+      await submitPrompt(view, 25, 30);
+      view.dispatch({ changes: { from: 0, insert: "# header\n" } });
+      expect(view.state.field(inputState)).toMatchObject({ lineFrom: 5, lineTo: 5 });
+      resolve("PRINT(FOO())");
+      await flush();
+
+      expect(view.state.doc.toString()).toBe(`# header\n${DOC.slice(0, 25)}PRINT(FOO())`);
+      expect(view.state.field(completionState)).toMatchObject({
+        from: 34,
+        to: 46,
+        oldCode: "print(foo())",
+      });
+    });
+  });
+
+  describe("preview", () => {
+    it("leaves the document alone until the edit is accepted", async () => {
+      view = createEditor(async () => "def foo():\n    return 2", { preview: true });
+      await submitPrompt(view, 0, 20);
+
+      expect(view.state.doc.toString()).toBe(DOC);
+      expect(view.state.field(completionState)).toMatchObject({
+        from: 0,
+        to: 23,
+        newCode: "def foo():\n    return 2",
+        preview: true,
+      });
+      const removed = view.dom.querySelectorAll(".cm-line.cm-old-code-line");
+      expect([...removed].map((line) => line.textContent)).toEqual(["    return 1"]);
+      expect(view.dom.querySelector(".cm-new-code-preview")?.textContent).toBe("    return 2");
+      expect(view.dom.querySelector(".cm-new-code-line")).toBeNull();
+
+      expect(acceptAiEdit(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe(DOC.replace("return 1", "return 2"));
+      expect(view.state.field(completionState)).toBeNull();
+    });
+
+    it("changes nothing when the edit is rejected", async () => {
+      view = createEditor(async () => "def bar():", { preview: true });
+      await submitPrompt(view, 0, 5);
+      expect(rejectAiEdit(view)).toBe(true);
+
+      expect(view.state.doc.toString()).toBe(DOC);
+      expect(view.state.field(completionState)).toBeNull();
+    });
+
+    it("writes accepted hunks and drops rejected ones", async () => {
+      view = createEditor(async () => "def bar():\n    return 1\n\nprint(bar())", {
+        preview: true,
+      });
+      await submitPrompt(view, 0, DOC.length);
+
+      expect(acceptAiEditHunk(view, 1)).toBe(true);
+      expect(view.state.doc.toString()).toBe(DOC.replace("print(foo())", "print(bar())"));
+      expect(rejectAiEditHunk(view, 0)).toBe(true);
+      expect(view.state.field(completionState)).toBeNull();
+      expect(view.state.doc.line(1).text).toBe("def foo():");
+    });
+
+    it("streams into the preview", async () => {
+      const { stream, push, end } = controlledStream();
+      view = createEditor(() => stream, { preview: true });
+      await submitPrompt(view, 0, 5);
+
+      await push("def ");
+      await push("bar():");
+      await end();
+      expect(view.state.doc.toString()).toBe(DOC);
+      expect(view.state.field(completionState)).toMatchObject({
+        from: 0,
+        to: 10,
+        newCode: "def bar():",
+        streaming: false,
+      });
+      expect(view.dom.querySelector(".cm-new-code-preview")?.textContent).toBe("def bar():");
+    });
+
+    it("shows an edit within a line next to the text it replaces", async () => {
+      view = createEditor(async () => "bar", { preview: true, editRange: "selection" });
+      await submitPrompt(view, 4, 7);
+
+      expect(view.state.doc.toString()).toBe(DOC);
+      expect(view.dom.querySelector(".cm-diff-highlight-remove")?.textContent).toBe("foo");
+      expect(view.dom.querySelector(".cm-new-code-inline")?.textContent).toBe("bar");
+      acceptAiEdit(view);
+      expect(view.state.doc.line(1).text).toBe("def bar():");
+    });
+
+    it("can't be applied once its code was changed", async () => {
+      view = createEditor(async () => "def bar():", { preview: true });
+      await submitPrompt(view, 0, 5);
+      view.dispatch({ changes: { from: 4, to: 7, insert: "baz" } });
+
+      expect(view.state.field(completionState)?.conflict).toBe(true);
+      expect(acceptAiEdit(view)).toBe(true);
+      expect(view.state.doc.line(1).text).toBe("def baz():");
+    });
+  });
+
+  describe("undo history", () => {
+    function createEditorWithHistory(prompt: CompleteFunction, options: Partial<AiOptions> = {}) {
+      const editor = createEditor(prompt, options);
+      editor.dispatch({ effects: StateEffect.appendConfig.of(history()) });
+      return editor;
+    }
+
+    it("undoes an accepted edit in one step, bringing it back", async () => {
+      view = createEditorWithHistory(async () => "def bar():");
+      await submitPrompt(view, 0, 5);
+      acceptAiEdit(view);
+      expect(view.state.doc.line(1).text).toBe("def bar():");
+
+      expect(undo(view)).toBe(true);
+      expect(view.state.doc.line(1).text).toBe("def bar():");
+      expect(view.state.field(completionState)).toMatchObject({
+        from: 0,
+        to: 10,
+        oldCode: "def foo():",
+        newCode: "def bar():",
+      });
+      expect(view.state.field(completionState)?.preview).toBeFalsy();
+      expect(view.dom.querySelector(".cm-old-code")?.textContent).toBe("def foo():");
+      // The proposal itself isn't in the history
+      expect(undoDepth(view.state)).toBe(0);
+
+      expect(redo(view)).toBe(true);
+      expect(view.state.doc.line(1).text).toBe("def bar():");
+      expect(view.state.field(completionState)).toBeNull();
+    });
+
+    it("undoes a rejected edit, bringing it back", async () => {
+      view = createEditorWithHistory(async () => "def bar():");
+      await submitPrompt(view, 0, 5);
+      rejectAiEdit(view);
+      expect(view.state.doc.toString()).toBe(DOC);
+
+      expect(undo(view)).toBe(true);
+      expect(view.state.doc.line(1).text).toBe("def bar():");
+      expect(view.state.field(completionState)?.newCode).toBe("def bar():");
+
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe(DOC);
+    });
+
+    it("undoes an accepted preview, bringing the preview back", async () => {
+      view = createEditorWithHistory(async () => "def bar():", { preview: true });
+      await submitPrompt(view, 0, 5);
+      acceptAiEdit(view);
+      expect(view.state.doc.line(1).text).toBe("def bar():");
+
+      expect(undo(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe(DOC);
+      expect(view.state.field(completionState)).toMatchObject({
+        newCode: "def bar():",
+        preview: true,
+      });
+      expect(view.dom.querySelector(".cm-new-code-preview")?.textContent).toBe("def bar():");
+    });
+
+    it("doesn't put the old code back before writing the outcome", async () => {
+      let requests = 0;
+      view = createEditorWithHistory(async () => (requests++ ? "def baz():" : "def bar():"));
+      const docs: string[] = [];
+      view.dispatch({
+        effects: StateEffect.appendConfig.of(
+          EditorView.updateListener.of((update) => {
+            if (update.docChanged) docs.push(update.state.doc.toString());
+          }),
+        ),
+      });
+      await submitPrompt(view, 0, 5);
+      docs.length = 0;
+      acceptAiEdit(view);
+      expect(docs).toEqual([]);
+
+      await submitPrompt(view, 0, 10);
+      docs.length = 0;
+      rejectAiEdit(view);
+      expect(docs).toEqual([DOC.replace("foo():", "bar():")]);
+    });
+
+    it("keeps a streamed edit and its hunks in a single event", async () => {
+      const { stream, push, end } = controlledStream();
+      view = createEditorWithHistory(() => stream);
+      view.dispatch({ changes: { from: DOC.length, insert: "\n" }, userEvent: "input.type" });
+      await submitPrompt(view, 0, DOC.length);
+      await push("def bar():\n    return 1\n");
+      await push("\nprint(bar())");
+      await end();
+
+      acceptAiEditHunk(view, 1);
+      rejectAiEdit(view);
+      expect(view.state.doc.toString()).toBe("def foo():\n    return 1\n\nprint(bar())\n");
+
+      undo(view);
+      expect(view.state.doc.toString()).toBe("def bar():\n    return 1\n\nprint(bar())\n");
+      expect(view.state.field(completionState)?.baseCode).toBe(DOC);
+
+      // The typing from before the edit is next
+      undo(view);
+      expect(view.state.doc.toString()).toBe("def bar():\n    return 1\n\nprint(bar())");
+      expect(undoDepth(view.state)).toBe(0);
+    });
+
+    it("restores all of the edits that were accepted together", async () => {
+      view = createEditorWithHistory(async ({ selection }) => selection.toUpperCase(), {
+        editRange: "selection",
+      });
+      view.dispatch({
+        effects: StateEffect.appendConfig.of(EditorState.allowMultipleSelections.of(true)),
+      });
+      view.dispatch({
+        selection: EditorSelection.create([
+          EditorSelection.range(4, 7),
+          EditorSelection.range(22, 23),
+        ]),
+      });
+      showAiEditInput(view);
+      const input = view.dom.querySelector<HTMLInputElement>(".cm-ai-input");
+      if (!input) throw new Error("input not rendered");
+      input.value = "uppercase";
+      input.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter" }));
+      await flush();
+
+      acceptAllAiEdits(view);
+      expect(view.state.doc.toString()).toBe(DOC.replace("foo", "FOO"));
+      undo(view);
+      expect(view.state.doc.toString()).toBe(DOC.replace("foo", "FOO"));
+      expect(view.state.field(completionsState)).toHaveLength(2);
+      redo(view);
+      expect(view.state.doc.toString()).toBe(DOC.replace("foo", "FOO"));
+      expect(view.state.field(completionsState)).toHaveLength(0);
+    });
+  });
+
+  describe("hunks", () => {
+    const NEW_CODE = "def bar():\n    return 1\n\nprint(bar())";
+
+    it("accepts hunks one at a time", async () => {
+      view = createEditor(async () => NEW_CODE);
+      await submitPrompt(view, 0, DOC.length);
+      expect(view.dom.querySelectorAll(".cm-hunk-buttons")).toHaveLength(2);
+
+      expect(acceptAiEditHunk(view, 1)).toBe(true);
+      expect(view.state.field(completionState)?.oldCode).toBe(
+        "def foo():\n    return 1\n\nprint(bar())",
+      );
+      // A single hunk left, so no per-hunk buttons
+      expect(view.dom.querySelectorAll(".cm-hunk-buttons")).toHaveLength(0);
+
+      expect(acceptAiEditHunk(view, 0)).toBe(true);
+      expect(view.state.field(completionState)).toBeNull();
+      expect(view.state.doc.toString()).toBe(NEW_CODE);
+    });
+
+    it("rejects hunks one at a time", async () => {
+      view = createEditor(async () => NEW_CODE);
+      await submitPrompt(view, 0, DOC.length);
+
+      expect(rejectAiEditHunk(view, 0)).toBe(true);
+      expect(view.state.doc.toString()).toBe("def foo():\n    return 1\n\nprint(bar())");
+      expect(view.state.field(completionState)).toMatchObject({
+        to: view.state.doc.length,
+        newCode: view.state.doc.toString(),
+      });
+
+      expect(rejectAiEditHunk(view, 0)).toBe(true);
+      expect(view.state.field(completionState)).toBeNull();
+      expect(view.state.doc.toString()).toBe(DOC);
+    });
+
+    it("moves between hunks and acts on the one at the cursor", async () => {
+      view = createEditor(async () => NEW_CODE);
+      await submitPrompt(view, 0, DOC.length);
+
+      expect(nextAiEditHunk(view)).toBe(true);
+      expect(view.state.doc.lineAt(view.state.selection.main.head).number).toBe(4);
+      expect(nextAiEditHunk(view)).toBe(true);
+      expect(view.state.doc.lineAt(view.state.selection.main.head).number).toBe(1);
+      expect(previousAiEditHunk(view)).toBe(true);
+      expect(view.state.doc.lineAt(view.state.selection.main.head).number).toBe(4);
+
+      expect(rejectAiEditHunk(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe("def bar():\n    return 1\n\nprint(foo())");
+    });
+  });
+
+  describe("refinement", () => {
+    async function refine(text: string) {
+      const input = view.dom.querySelector<HTMLInputElement>(".cm-ai-refine-input");
+      if (!input) throw new Error("refine input not rendered");
+      input.value = text;
+      input.form?.requestSubmit();
+      await flush();
+    }
+
+    it("sends the conversation so far and replaces the proposal in place", async () => {
+      const prompt = vi
+        .fn<CompleteFunction>()
+        .mockResolvedValueOnce("def bar():")
+        .mockResolvedValueOnce("def baz():");
+      view = createEditor(prompt);
+      await submitPrompt(view, 0, 5, "rename to bar");
+      await refine("actually, baz");
+
+      expect(prompt).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          prompt: "actually, baz",
+          selection: "def foo():",
+          codeAfter: DOC.slice(10),
+          history: [{ prompt: "rename to bar", response: "def bar():" }],
+        }),
+      );
+      expect(view.state.doc.line(1).text).toBe("def baz():");
+      expect(view.state.field(completionState)).toMatchObject({
+        oldCode: "def foo():",
+        newCode: "def baz():",
+        prompt: "actually, baz",
+        history: [{ prompt: "rename to bar", response: "def bar():" }],
+      });
+
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe(DOC);
+    });
+
+    it("keeps the proposal when the follow-up is cancelled", async () => {
+      let signal: AbortSignal | undefined;
+      const prompt = vi
+        .fn<CompleteFunction>()
+        .mockResolvedValueOnce("def bar():")
+        .mockImplementationOnce((opts) => {
+          signal = opts.signal;
+          return new Promise(() => {});
+        });
+      view = createEditor(prompt);
+      await submitPrompt(view, 0, 5);
+      await refine("again");
+      expect(view.state.field(completionState)?.refining).toBe(true);
+
+      expect(stopAiEdit(view)).toBe(true);
+      expect(signal?.aborted).toBe(true);
+      expect(view.state.field(completionState)).toMatchObject({
+        newCode: "def bar():",
+        refining: false,
+      });
+    });
+  });
+
+  describe("syntax validation", () => {
+    function createPythonEditor(prompt: CompleteFunction, options: Partial<AiOptions> = {}) {
+      const editor = createEditor(prompt, { validateSyntax: true, ...options });
+      editor.dispatch({ effects: StateEffect.appendConfig.of(python()) });
+      return editor;
+    }
+
+    it("shows syntax errors in the proposed code, with a button to repair them", async () => {
+      const prompt = vi
+        .fn<CompleteFunction>()
+        .mockResolvedValueOnce("def bar(:")
+        .mockResolvedValueOnce("def bar():");
+      view = createPythonEditor(prompt);
+      await submitPrompt(view, 0, 5, "rename to bar");
+
+      const notice = view.dom.querySelector(".cm-ai-syntax-errors");
+      expect(notice?.textContent).toContain("The proposed code has a syntax error.");
+      expect(view.dom.querySelector(".cm-line.cm-ai-syntax-error-line")?.textContent).toBe(
+        "def bar(:",
+      );
+
+      view.dom.querySelector<HTMLButtonElement>(".cm-ai-syntax-repair")?.click();
+      await flush();
+      expect(prompt).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          prompt: "Fix the syntax errors in the code:\n- line 1, column 9: def bar(:",
+          syntaxErrors: [{ line: 1, column: 9, text: "def bar(:" }],
+          history: [{ prompt: "rename to bar", response: "def bar(:" }],
+        }),
+      );
+      expect(view.state.doc.line(1).text).toBe("def bar():");
+      expect(view.state.field(completionState)?.repaired).toBe(true);
+      expect(view.dom.querySelector(".cm-ai-syntax-errors")).toBeNull();
+    });
+
+    it("checks previews too", async () => {
+      view = createPythonEditor(async () => "def bar(:", { preview: true });
+      await submitPrompt(view, 0, 5);
+
+      expect(view.state.doc.toString()).toBe(DOC);
+      expect(view.dom.querySelector(".cm-ai-syntax-errors")).not.toBeNull();
+    });
+
+    it("repairs proposals right away, once, with `repair`", async () => {
+      const prompt = vi.fn<CompleteFunction>(async () => "def bar(:");
+      view = createPythonEditor(prompt, { validateSyntax: "repair" });
+      await submitPrompt(view, 0, 5);
+      await flush();
+
+      expect(prompt).toHaveBeenCalledTimes(2);
+      expect(prompt.mock.calls[1]?.[0].syntaxErrors).toHaveLength(1);
+      expect(view.dom.querySelector(".cm-ai-syntax-errors")).not.toBeNull();
+    });
+
+    it("doesn't repair proposals once the view is destroyed", async () => {
+      let answer: (code: string) => void = () => {};
+      const prompt = vi.fn<CompleteFunction>(
+        () =>
+          new Promise((resolve) => {
+            answer = resolve;
+          }),
+      );
+      view = createPythonEditor(prompt, { validateSyntax: "repair" });
+      await submitPrompt(view, 0, 5);
+      answer("def bar(:");
+      for (let i = 0; i < 10; i++) await Promise.resolve();
+      expect(view.state.field(completionState)?.newCode).toBe("def bar(:");
+      view.destroy();
+      await flush();
+
+      expect(prompt).toHaveBeenCalledTimes(1);
+    });
+
+    it("doesn't check without the option", async () => {
+      view = createPythonEditor(async () => "def bar(:", { validateSyntax: false });
+      await submitPrompt(view, 0, 5);
+
+      expect(view.dom.querySelector(".cm-ai-syntax-errors")).toBeNull();
+    });
+  });
+
+  describe("streaming", () => {
+    it("grows the completion range as chunks arrive", async () => {
+      const { stream, push, end } = controlledStream();
+      view = createEditor(() => stream);
+      await submitPrompt(view, 0, 5);
+
+      await push("def ");
+      expect(view.state.doc.toString()).toBe(`def ${DOC.slice(10)}`);
+      expect(view.state.field(completionState)).toMatchObject({
+        from: 0,
+        to: 4,
+        streaming: true,
+      });
+      expect(view.dom.querySelector(".cm-floating-stop")).not.toBeNull();
+
+      await push("bar():");
+      expect(view.state.doc.line(1).text).toBe("def bar():");
+      expect(view.state.field(completionState)).toMatchObject({ to: 10, newCode: "def bar():" });
+
+      await end();
+      expect(view.state.field(completionState)?.streaming).toBe(false);
+      expect(view.dom.querySelector(".cm-floating-stop")).toBeNull();
+    });
+
+    it("accepts readable streams", async () => {
+      view = createEditor(
+        () =>
+          new ReadableStream<string>({
+            start(controller) {
+              controller.enqueue("def ");
+              controller.enqueue("bar():");
+              controller.close();
+            },
+          }),
+      );
+      await submitPrompt(view, 0, 5);
+
+      expect(view.state.doc.line(1).text).toBe("def bar():");
+      expect(view.state.field(completionState)?.streaming).toBe(false);
+    });
+
+    it("stops the stream and keeps the partial result", async () => {
+      const { stream, push } = controlledStream();
+      let signal: AbortSignal | undefined;
+      view = createEditor((opts) => {
+        signal = opts.signal;
+        return stream;
+      });
+      await submitPrompt(view, 0, 5);
+      await push("def b");
+
+      expect(stopAiEdit(view)).toBe(true);
+      expect(signal?.aborted).toBe(true);
+
+      await push("ar():");
+      expect(view.state.doc.line(1).text).toBe("def b");
+      expect(view.state.field(completionState)).toMatchObject({
+        newCode: "def b",
+        streaming: false,
+      });
+    });
+
+    it("rejects a partial result", async () => {
+      const { stream, push } = controlledStream();
+      view = createEditor(() => stream);
+      await submitPrompt(view, 0, 5);
+      await push("def b");
+
+      expect(rejectAiEdit(view)).toBe(true);
+      await push("ar():");
+      expect(view.state.doc.toString()).toBe(DOC);
+      expect(view.state.field(completionState)).toBeNull();
+    });
+
+    it("accepts a partial result", async () => {
+      const { stream, push } = controlledStream();
+      view = createEditor(() => stream);
+      await submitPrompt(view, 0, 5);
+      await push("def b");
+
+      expect(acceptAiEdit(view)).toBe(true);
+      await push("ar():");
+      expect(view.state.doc.line(1).text).toBe("def b");
+      expect(view.state.field(completionState)).toBeNull();
+    });
+  });
+
+  describe("post-processing", () => {
+    const RETURN_LINE = DOC.indexOf("    return");
+
+    it("cleans up the code before showing it", async () => {
+      view = createEditor(async () => "Here's the change:\n```python\nreturn 2\n```");
+      await submitPrompt(view, RETURN_LINE, RETURN_LINE + 12);
+
+      expect(view.state.doc.line(2).text).toBe("    return 2");
+      expect(view.state.field(completionState)?.newCode).toBe("    return 2");
+    });
+
+    it("cleans up streamed code once the stream ends", async () => {
+      const { stream, push, end } = controlledStream();
+      view = createEditor(() => stream);
+      await submitPrompt(view, RETURN_LINE, RETURN_LINE + 12);
+      await push("```python\n");
+      await push("return 2\n```\n");
+      expect(view.state.doc.line(2).text).toBe("```python");
+
+      await end();
+      expect(view.state.doc.toString()).toBe(DOC.replace("return 1", "return 2"));
+      expect(view.state.field(completionState)).toMatchObject({
+        newCode: "    return 2",
+        to: RETURN_LINE + 12,
+      });
+    });
+
+    it("runs the configured post-processors", async () => {
+      const upperCase = vi.fn((text: string) => text.toUpperCase());
+      view = createEditor(async () => "```\nreturn 2\n```", { postProcessors: [upperCase] });
+      await submitPrompt(view, RETURN_LINE, RETURN_LINE + 12);
+
+      expect(upperCase).toHaveBeenCalledWith(
+        "```\nreturn 2\n```",
+        expect.objectContaining({ from: RETURN_LINE, oldCode: "    return 1" }),
+      );
+      expect(view.state.field(completionState)?.newCode).toBe("```\nRETURN 2\n```");
+    });
+  });
+
+  describe("prompt history", () => {
+    function openInput() {
+      view.dispatch({ selection: EditorSelection.single(0, 5) });
+      showAiEditInput(view);
+      const input = view.dom.querySelector<HTMLInputElement>(".cm-ai-input");
+      if (!input) throw new Error("input not rendered");
+      return input;
+    }
+
+    function press(input: HTMLInputElement, key: string) {
+      input.dispatchEvent(new KeyboardEvent("keydown", { key, cancelable: true }));
+    }
+
+    it("records submitted prompts, most recent first", async () => {
+      view = createEditor(async () => "def bar():");
+      await submitPrompt(view, 0, 5, "rename foo");
+      rejectAiEdit(view);
+      await submitPrompt(view, 0, 5, "add types");
+      rejectAiEdit(view);
+      await submitPrompt(view, 0, 5, "rename foo");
+
+      expect(view.state.field(inputValueState).history).toEqual(["rename foo", "add types"]);
+    });
+
+    it("recalls earlier prompts with the arrow keys", async () => {
+      view = createEditor(async () => "def bar():", {
+        promptHistory: memoryPromptHistory(["newer", "older"]),
+      });
+      await flush();
+      const input = openInput();
+      input.value = "draft";
+
+      press(input, "ArrowUp");
+      expect(input.value).toBe("newer");
+      press(input, "ArrowUp");
+      expect(input.value).toBe("older");
+      press(input, "ArrowUp");
+      expect(input.value).toBe("older");
+      press(input, "ArrowDown");
+      press(input, "ArrowDown");
+      expect(input.value).toBe("draft");
+      expect(view.state.field(inputValueState).inputValue).toBe("draft");
+    });
+
+    it("suggests matching prompts while typing", async () => {
+      view = createEditor(async () => "def bar():", {
+        promptHistory: memoryPromptHistory(["Add docstring", "fix bug", "add types"]),
+      });
+      await flush();
+      const input = openInput();
+      input.value = "add";
+      input.dispatchEvent(new Event("input"));
+
+      const list = view.dom.querySelector(".cm-ai-input-suggestions");
+      const options = [...view.dom.querySelectorAll(".cm-ai-input-suggestion")];
+      expect(options.map((option) => option.textContent)).toEqual(["Add docstring", "add types"]);
+      expect(input.getAttribute("aria-expanded")).toBe("true");
+
+      press(input, "ArrowDown");
+      press(input, "ArrowDown");
+      expect(options[1]?.getAttribute("aria-selected")).toBe("true");
+      press(input, "Enter");
+      expect(input.value).toBe("add types");
+      expect(list?.hasAttribute("hidden")).toBe(true);
+      expect(view.state.field(inputState).show).toBe(true);
+    });
+
+    it("loads from and saves to the storage", async () => {
+      const storage = memoryPromptHistory(["earlier"]);
+      view = createEditor(async () => "def bar():", { promptHistory: storage });
+      await flush();
+      await submitPrompt(view, 0, 5, "later");
+
+      expect(storage.load()).toEqual(["later", "earlier"]);
+    });
+
+    it("keeps the history in localStorage", () => {
+      const storage = localStoragePromptHistory("test-history");
+      storage.save(["one", "two"]);
+      expect(storage.load()).toEqual(["one", "two"]);
+
+      localStorage.setItem("test-history", "not json");
+      expect(storage.load()).toEqual([]);
+      localStorage.removeItem("test-history");
+    });
+  });
+
+  describe("slash commands", () => {
+    function typeInInput(text: string) {
+      view.dispatch({ selection: EditorSelection.single(0, 5) });
+      showAiEditInput(view);
+      const input = view.dom.querySelector<HTMLInputElement>(".cm-ai-input");
+      if (!input) throw new Error("input not rendered");
+      input.value = text;
+      input.dispatchEvent(new Event("input"));
+      return input;
+    }
+
+    it("lists the commands after a slash", () => {
+      view = createEditor(async () => "def bar():");
+      const input = typeInInput("/t");
+
+      const list = view.dom.querySelector(".cm-ai-input-suggestions");
+      expect(list?.getAttribute("aria-label")).toBe("Commands");
+      const options = [...view.dom.querySelectorAll(".cm-ai-input-suggestion")];
+      expect(options.map((option) => option.textContent)).toEqual([
+        "/testsWrite tests",
+        "/typesAdd type annotations",
+      ]);
+
+      input.dispatchEvent(new KeyboardEvent("keydown", { key: "Tab", cancelable: true }));
+      expect(input.value).toBe("/tests ");
+    });
+
+    it("sends the expanded template and the command id", async () => {
+      const prompt = vi.fn<CompleteFunction>(async () => "def bar():");
+      view = createEditor(prompt, {
+        slashCommands: [
+          { id: "rename", template: "Rename the function to {input}", context: "selection" },
+        ],
+      });
+      await submitPrompt(view, 0, 5, "/rename bar");
+
+      expect(prompt).toHaveBeenCalledWith(
+        expect.objectContaining({
+          prompt: "Rename the function to bar",
+          command: "rename",
+          codeBefore: "",
+          codeAfter: "",
+        }),
+      );
+      expect(view.state.field(inputValueState).history).toEqual(["/rename bar"]);
+    });
+
+    it("sends unknown commands as typed", async () => {
+      const prompt = vi.fn<CompleteFunction>(async () => "def bar():");
+      view = createEditor(prompt, { slashCommands: [] });
+      await submitPrompt(view, 0, 5, "/doc");
+
+      expect(prompt).toHaveBeenCalledWith(
+        expect.objectContaining({ prompt: "/doc", command: undefined }),
+      );
+    });
+  });
+
+  describe("context providers", () => {
+    const readme = { id: "readme", description: "Project README", resolve: () => "# Foo" };
+
+    function typeInInput(text: string) {
+      view.dispatch({ selection: EditorSelection.single(0, 5) });
+      showAiEditInput(view);
+      const input = view.dom.querySelector<HTMLInputElement>(".cm-ai-input");
+      if (!input) throw new Error("input not rendered");
+      input.value = text;
+      input.setSelectionRange(text.length, text.length);
+      input.dispatchEvent(new Event("input"));
+      return input;
+    }
+
+    function chips() {
+      return [...view.dom.querySelectorAll(".cm-ai-context-chip")].map(
+        (chip) => chip.firstChild?.textContent,
+      );
+    }
+
+    it("turns a picked provider into a chip", () => {
+      view = createEditor(async () => "def bar():", { contextProviders: [readme] });
+      const input = typeInInput("rename like @re");
+
+      const list = view.dom.querySelector(".cm-ai-input-suggestions");
+      expect(list?.getAttribute("aria-label")).toBe("Context");
+      input.dispatchEvent(new KeyboardEvent("keydown", { key: "Tab", cancelable: true }));
+      expect(input.value).toBe("rename like ");
+      expect(chips()).toEqual(["@readme"]);
+
+      // Backspace at the start of the input removes it again
+      input.setSelectionRange(0, 0);
+      input.dispatchEvent(new KeyboardEvent("keydown", { key: "Backspace", cancelable: true }));
+      expect(chips()).toEqual([]);
+    });
+
+    it("sends the material of mentioned providers as context", async () => {
+      const prompt = vi.fn<CompleteFunction>(async () => "def bar():");
+      const notes = { id: "notes", resolve: async () => "use short names" };
+      view = createEditor(prompt, { contextProviders: [readme] });
+      view.dispatch({ effects: StateEffect.appendConfig.of(contextProviders.of(notes)) });
+      const input = typeInInput("@rea");
+      input.dispatchEvent(new KeyboardEvent("keydown", { key: "Tab", cancelable: true }));
+      input.value = "rename it, see @notes";
+      input.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter" }));
+      await flush();
+
+      expect(prompt).toHaveBeenCalledWith(
+        expect.objectContaining({
+          prompt: "rename it, see @notes",
+          context: [
+            { id: "readme", content: "# Foo" },
+            { id: "notes", content: "use short names" },
+          ],
+        }),
+      );
+      expect(view.state.field(completionState)?.context).toHaveLength(2);
+    });
+
+    it("sends no context without mentions", async () => {
+      const prompt = vi.fn<CompleteFunction>(async () => "def bar():");
+      view = createEditor(prompt, { contextProviders: [readme] });
+      await submitPrompt(view, 0, 5, "email me@readme");
+
+      expect(prompt).toHaveBeenCalledWith(expect.objectContaining({ context: undefined }));
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { python } from "@codemirror/lang-python";
+import { indentUnit } from "@codemirror/language";
+import { EditorState } from "@codemirror/state";
+import { describe, expect, it } from "vitest";
+import { languageInfo } from "../language-info";
+
+const DOC = "def foo():\n    return 1\n\nprint(foo())";
+
+describe("languageInfo", () => {
+  it("describes the language and the syntax around the range", () => {
+    const state = EditorState.create({
+      doc: DOC,
+      extensions: [python(), indentUnit.of("    ")],
+    });
+    const from = DOC.indexOf("return");
+
+    expect(languageInfo(state, from, from + "return 1".length)).toEqual({
+      name: "python",
+      indentUnit: "    ",
+      lineComment: "#",
+      enclosingNodes: ["ReturnStatement", "Body", "FunctionDefinition"],
+    });
+  });
+
+  it("has only the indent unit without a language", () => {
+    const state = EditorState.create({ doc: DOC });
+
+    expect(languageInfo(state, 0, 5)).toEqual({ indentUnit: "  ", enclosingNodes: [] });
+  });
+});
@@ -0,0 +1,94 @@
+import { python } from "@codemirror/lang-python";
+import { indentUnit } from "@codemirror/language";
+import { EditorState } from "@codemirror/state";
+import { describe, expect, it } from "vitest";
+import {
+  type PostProcessContext,
+  defaultPostProcessors,
+  normalizeTrailingNewline,
+  postProcess,
+  reindent,
+  stripCodeFences,
+  trimProse,
+} from "../post-process";
+
+const DOC = "def foo():\n    return 1\n\nprint(foo())";
+
+/** Where the code from `from` to `to` goes */
+function context(from: number, to: number, doc = DOC): PostProcessContext {
+  const state = EditorState.create({ doc, extensions: [python(), indentUnit.of("    ")] });
+  return { state, from, to, oldCode: state.sliceDoc(from, to) };
+}
+
+const RETURN_LINE = context(DOC.indexOf("    return"), DOC.indexOf("\n\n"));
+
+describe("stripCodeFences", () => {
+  it("takes the code out of a code block", () => {
+    const text = "Here you go:\n```python\nreturn 2\n```\nThat's all.";
+    expect(stripCodeFences(text, RETURN_LINE)).toBe("return 2");
+    expect(stripCodeFences("~~~\nreturn 2\n~~~", RETURN_LINE)).toBe("return 2");
+  });
+
+  it("strips the fences of a cut-off block", () => {
+    expect(stripCodeFences("```python\nreturn 2\n", RETURN_LINE)).toBe("return 2\n");
+    expect(stripCodeFences("return 2", RETURN_LINE)).toBe("return 2");
+  });
+
+  it("leaves fences alone when the replaced code has its own", () => {
+    const doc = "Usage:\n```sh\nnpm install\n```";
+    const text = "```sh\npnpm add\n```";
+    expect(stripCodeFences(text, context(7, doc.length, doc))).toBe(text);
+  });
+});
+
+describe("trimProse", () => {
+  it("drops introductions, explanations and blank lines around the code", () => {
+    const text = "Sure! Here is the updated line:\n\nreturn 2\n\nThis returns 2 instead of 1.";
+    expect(trimProse(text, RETURN_LINE)).toBe("return 2");
+  });
+
+  it("takes the code out of <code> tags", () => {
+    expect(trimProse("The line is <code>return 2</code>.", RETURN_LINE)).toBe("return 2");
+  });
+
+  it("keeps code that looks like prose when it's indented", () => {
+    const text = 'def f():\n    """\n\n    The answer.\n    """';
+    expect(trimProse(text, RETURN_LINE)).toBe(text);
+  });
+});
+
+describe("reindent", () => {
+  it("indents the code like the lines it replaces", () => {
+    expect(reindent("return 2", RETURN_LINE)).toBe("    return 2");
+    expect(reindent("if x:\n    return 2", RETURN_LINE)).toBe("    if x:\n        return 2");
+    expect(reindent("        return 2", RETURN_LINE)).toBe("    return 2");
+  });
+
+  it("uses the language's indentation when inserting on a blank line", () => {
+    const doc = "def foo():\n\n    return x";
+    const blank = doc.indexOf("\n\n") + 1;
+    expect(reindent("x = 1", context(blank, blank, doc))).toBe("    x = 1");
+  });
+
+  it("leaves edits within a line alone", () => {
+    const from = DOC.indexOf("1");
+    expect(reindent("  2", context(from, from + 1))).toBe("  2");
+  });
+});
+
+describe("normalizeTrailingNewline", () => {
+  it("ends the code with a line break like the code it replaces", () => {
+    expect(normalizeTrailingNewline("return 2\n\n", RETURN_LINE)).toBe("return 2");
+    const withBreak = context(0, DOC.indexOf("\n\n") + 1);
+    expect(normalizeTrailingNewline("return 2", withBreak)).toBe("return 2\n");
+    expect(normalizeTrailingNewline("x, ", RETURN_LINE)).toBe("x, ");
+  });
+});
+
+describe("postProcess", () => {
+  it("runs the processors in order", () => {
+    const text = "Here's the fix:\n```python\nreturn 2\n```\n";
+    expect(postProcess(text, defaultPostProcessors, RETURN_LINE)).toBe("    return 2");
+    expect(postProcess(text, [], RETURN_LINE)).toBe(text);
+  });
+});
@@ -0,0 +1,237 @@
+// @vitest-environment node
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { EditorState } from "@codemirror/state";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { anthropicProvider, editMessages, ollamaProvider, openAiProvider } from "../providers";
+import { collectCompletion } from "../utils";
+
+interface Received {
+  url: string;
+  headers: IncomingMessage["headers"];
+  body: Record<string, unknown>;
+}
+
+type Handler = (request: Received, response: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+let handler: Handler;
+let received: Received[];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let data = "";
+    req.on("data", (chunk) => {
+      data += chunk;
+    });
+    req.on("end", () => {
+      const request = { url: req.url ?? "", headers: req.headers, body: JSON.parse(data || "{}") };
+      received.push(request);
+      handler(request, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+function json(body: unknown, status = 200): Handler {
+  return (_, res) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+}
+
+function chunks(contentType: string, parts: string[]): Handler {
+  return (_, res) => {
+    res.writeHead(200, { "Content-Type": contentType });
+    for (const part of parts) res.write(part);
+    res.end();
+  };
+}
+
+const editOpts = {
+  prompt: "Rename x",
+  selection: "x = 1",
+  codeBefore: "",
+  codeAfter: "",
+  editorView: undefined as never,
+};
+
+describe("openAiProvider", () => {
+  it("sends chat requests and reads the answer", async () => {
+    handler = json({ choices: [{ message: { content: "count = 1" } }] });
+    const provider = openAiProvider({ model: "gpt", baseUrl, apiKey: "key", stream: false });
+
+    expect(await provider.complete(editOpts)).toBe("count = 1");
+    const [request] = received;
+    expect(request?.url).toBe("/chat/completions");
+    expect(request?.headers.authorization).toBe("Bearer key");
+    expect(request?.body).toMatchObject({ model: "gpt", stream: false });
+    expect(request?.body.messages).toEqual(editMessages(editOpts));
+  });
+
+  it("sends the messages a template wrote", async () => {
+    handler = json({ choices: [{ message: { content: "b" } }] });
+    const provider = openAiProvider({ model: "gpt", baseUrl, stream: false });
+    const messages = [{ role: "user" as const, content: "a + " }];
+
+    await provider.complete({ ...editOpts, messages });
+    expect(received[0]?.body.messages).toEqual(messages);
+  });
+
+  it("streams server-sent events", async () => {
+    handler = chunks("text/event-stream", [
+      'data: {"choices":[{"delta":{"content":"count"}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":" = 1"}}]}\n\ndata: [DONE]\n\n',
+    ]);
+    const provider = openAiProvider({ model: "gpt", baseUrl });
+
+    const result = await provider.complete(editOpts);
+    expect(typeof result).not.toBe("string");
+    expect(await collectCompletion(result)).toBe("count = 1");
+  });
+
+  it("asks for several answers without streaming", async () => {
+    handler = json({ choices: [{ message: { content: "a" } }, { message: { content: "b" } }] });
+    const provider = openAiProvider({ model: "gpt", baseUrl });
+
+    expect(await provider.complete({ ...editOpts, n: 2 })).toEqual(["a", "b"]);
+    expect(received[0]?.body).toMatchObject({ n: 2, stream: false });
+  });
+
+  it("sends the code around the cursor as a FIM request", async () => {
+    handler = json({ choices: [{ text: "b" }] });
+    const provider = openAiProvider({ model: "coder", baseUrl, body: { temperature: 0 } });
+    const state = EditorState.create({ doc: "a + c", selection: { anchor: 4 } });
+
+    expect(await provider.fetchFn(state, new AbortController().signal)).toBe("b");
+    expect(received[0]?.url).toBe("/completions");
+    expect(received[0]?.body).toMatchObject({ prompt: "a + ", suffix: "c", temperature: 0 });
+  });
+
+  it("sends FIM requests from aiAutocomplete to the FIM endpoint", async () => {
+    handler = json({ choices: [{ text: "b" }] });
+    const provider = openAiProvider({ model: "coder", baseUrl });
+
+    const opts = { ...editOpts, codeBefore: "a + ", codeAfter: "c", fim: true };
+    expect(await provider.complete(opts)).toBe("b");
+    expect(received[0]?.url).toBe("/completions");
+    expect(received[0]?.body).toMatchObject({ prompt: "a + ", suffix: "c" });
+  });
+
+  it("throws errors with the message and category of the response", async () => {
+    handler = json({ error: { message: "Slow down" } }, 429);
+    const provider = openAiProvider({ model: "gpt", baseUrl });
+
+    await expect(provider.complete(editOpts)).rejects.toMatchObject({
+      name: "AiError",
+      category: "rate-limit",
+      message: "Slow down",
+    });
+  });
+
+  it("throws network errors when the server can't be reached", async () => {
+    const provider = openAiProvider({ model: "gpt", baseUrl: "http://127.0.0.1:1" });
+
+    await expect(provider.complete(editOpts)).rejects.toMatchObject({ category: "network" });
+  });
+
+  it("aborts requests", async () => {
+    handler = () => {};
+    const provider = openAiProvider({ model: "gpt", baseUrl });
+    const controller = new AbortController();
+
+    const result = provider.complete({ ...editOpts, signal: controller.signal });
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
+
+describe("anthropicProvider", () => {
+  it("sends the system prompt on its own and streams the answer", async () => {
+    handler = chunks("text/event-stream", [
+      'event: message_start\ndata: {"type":"message_start"}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"count"}}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":" = 1"}}\n\n',
+      'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+    ]);
+    const provider = anthropicProvider({ model: "claude", baseUrl, apiKey: "key" });
+
+    expect(await collectCompletion(await provider.complete(editOpts))).toBe("count = 1");
+    const [request] = received;
+    expect(request?.url).toBe("/messages");
+    expect(request?.headers["x-api-key"]).toBe("key");
+    expect(request?.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(request?.body.system).toEqual(expect.stringContaining("code editor"));
+    expect(request?.body.messages).toEqual(
+      editMessages(editOpts).filter((message) => message.role !== "system"),
+    );
+  });
+
+  it("sends FIM requests as a chat", async () => {
+    handler = json({ content: [{ type: "text", text: "b" }] });
+    const provider = anthropicProvider({ model: "claude", baseUrl });
+
+    expect(await provider.fim("a + ", "c")).toBe("b");
+    expect(received[0]?.body).toMatchObject({
+      stream: false,
+      messages: [{ role: "user", content: "a + <cursor/>c" }],
+    });
+  });
+
+  it("treats overloaded responses as rate limits", async () => {
+    handler = json(
+      { type: "error", error: { type: "overloaded_error", message: "Overloaded" } },
+      529,
+    );
+    const provider = anthropicProvider({ model: "claude", baseUrl });
+
+    await expect(provider.complete(editOpts)).rejects.toMatchObject({
+      category: "rate-limit",
+      message: "Overloaded",
+    });
+  });
+});
+
+describe("ollamaProvider", () => {
+  it("streams lines of JSON", async () => {
+    handler = chunks("application/x-ndjson", [
+      '{"message":{"content":"count"},"done":false}\n{"message":{"content":" = 1"},',
+      '"done":false}\n{"done":true}\n',
+    ]);
+    const provider = ollamaProvider({ model: "qwen", baseUrl, maxTokens: 64 });
+
+    expect(await collectCompletion(await provider.complete(editOpts))).toBe("count = 1");
+    expect(received[0]?.url).toBe("/api/chat");
+    expect(received[0]?.body).toMatchObject({ stream: true, options: { num_predict: 64 } });
+  });
+
+  it("sends FIM requests to the generate API", async () => {
+    handler = json({ response: "b", done: true });
+    const provider = ollamaProvider({ model: "qwen", baseUrl });
+
+    expect(await provider.fim("a + ", "c")).toBe("b");
+    expect(received[0]?.url).toBe("/api/generate");
+    expect(received[0]?.body).toMatchObject({ prompt: "a + ", suffix: "c", stream: false });
+  });
+
+  it("throws the error of the response", async () => {
+    handler = json({ error: "model 'qwen' not found" }, 404);
+    const provider = ollamaProvider({ model: "qwen", baseUrl });
+
+    await expect(provider.fim("a", "")).rejects.toMatchObject({
+      category: "unknown",
+      message: "model 'qwen' not found",
+    });
+  });
+});
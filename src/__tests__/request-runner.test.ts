@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AiError } from "../errors";
+import { runRequest } from "../request-runner";
+
+describe("runRequest", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("times out requests, aborting their signal", async () => {
+    let signal: AbortSignal | undefined;
+    const result = runRequest(
+      (s) => {
+        signal = s;
+        return new Promise(() => {});
+      },
+      { timeout: 1000 },
+    );
+    const assertion = expect(result).rejects.toMatchObject({ category: "timeout" });
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("retries retryable errors with exponential backoff", async () => {
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(Object.assign(new Error("Too Many Requests"), { status: 429 }))
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce("done");
+    const result = runRequest(request, { retries: 2, retryDelay: 100 });
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await result).toBe("done");
+  });
+
+  it("gives up on errors that aren't retryable, or once out of retries", async () => {
+    const invalid = vi.fn().mockRejectedValue(new Error("Model not found"));
+    await expect(runRequest(invalid, { retries: 3 })).rejects.toBeInstanceOf(AiError);
+    expect(invalid).toHaveBeenCalledTimes(1);
+
+    const offline = vi.fn().mockRejectedValue(new TypeError("Failed to fetch"));
+    const result = runRequest(offline, { retries: 1, retryDelay: 10 });
+    const assertion = expect(result).rejects.toMatchObject({ category: "network" });
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(offline).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops when the caller aborts", async () => {
+    const controller = new AbortController();
+    const request = vi.fn(() => Promise.reject(new TypeError("Failed to fetch")));
+    const result = runRequest(request, { retries: 3, retryDelay: 100 }, controller.signal);
+    const assertion = expect(result).rejects.toMatchObject({ name: "AbortError" });
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort();
+    await assertion;
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the signal tied to the caller's while a stream is read", async () => {
+    const controller = new AbortController();
+    let signal: AbortSignal | undefined;
+    await runRequest(
+      async function* (s) {
+        signal = s;
+        yield "a";
+        await new Promise(() => {});
+      },
+      { timeout: 1000 },
+      controller.signal,
+    );
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(signal?.aborted).toBe(false);
+    controller.abort();
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("stops listening to the caller's signal once an attempt is over", async () => {
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, "addEventListener");
+    const remove = vi.spyOn(controller.signal, "removeEventListener");
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce("done");
+    const result = runRequest(request, { retries: 1, retryDelay: 10 }, controller.signal);
+    await vi.runAllTimersAsync();
+    expect(await result).toBe("done");
+    expect(remove.mock.calls.length).toBe(add.mock.calls.length);
+
+    add.mockClear();
+    remove.mockClear();
+    const stream = await runRequest(
+      async function* () {
+        yield "a";
+        yield "b";
+      },
+      {},
+      controller.signal,
+    );
+    expect(remove).not.toHaveBeenCalled();
+    for await (const _ of stream);
+    expect(remove.mock.calls.length).toBe(add.mock.calls.length);
+  });
+
+  it("times out streams that never start", async () => {
+    const request = vi.fn(async function* () {
+      yield* [];
+      await new Promise(() => {});
+    });
+    const result = runRequest(request, { timeout: 1000, retries: 0 });
+    const assertion = expect(result).rejects.toMatchObject({ category: "timeout" });
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+  });
+
+  it("reads a stream that has started to its end", async () => {
+    const result = await runRequest(
+      async function* () {
+        yield "a";
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+        yield "b";
+      },
+      { timeout: 1000 },
+    );
+    const chunks: string[] = [];
+    const reading = (async () => {
+      for await (const chunk of result) chunks.push(chunk);
+    })();
+    await vi.advanceTimersByTimeAsync(2000);
+    await reading;
+    expect(chunks).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,95 @@
+import { python } from "@codemirror/lang-python";
+import { EditorState } from "@codemirror/state";
+import { describe, expect, it } from "vitest";
+import {
+  defaultSlashCommands,
+  expandSlashCommand,
+  parseSlashCommand,
+  promptContext,
+} from "../slash-commands";
+import type { SlashCommand } from "../state";
+
+const commands: SlashCommand[] = [
+  { id: "doc", template: "Document this. {input}" },
+  { id: "explain", template: "Explain this code" },
+  { id: "shout", template: (input) => input.toUpperCase() },
+];
+
+describe("parseSlashCommand", () => {
+  it("finds the command and what follows it", () => {
+    expect(parseSlashCommand("/doc keep it short", commands)).toEqual({
+      command: commands[0],
+      input: "keep it short",
+    });
+    expect(parseSlashCommand("  /doc  ", commands)).toEqual({ command: commands[0], input: "" });
+  });
+
+  it("ignores unknown commands and plain prompts", () => {
+    expect(parseSlashCommand("/nope", commands)).toBeNull();
+    expect(parseSlashCommand("/docs", commands)).toBeNull();
+    expect(parseSlashCommand("rename /doc", commands)).toBeNull();
+  });
+});
+
+describe("expandSlashCommand", () => {
+  it("fills in the input placeholder", () => {
+    expect(expandSlashCommand({ command: commands[0] as SlashCommand, input: "briefly" })).toBe(
+      "Document this. briefly",
+    );
+    expect(expandSlashCommand({ command: commands[0] as SlashCommand, input: "" })).toBe(
+      "Document this.",
+    );
+  });
+
+  it("appends the input to templates without a placeholder", () => {
+    expect(
+      expandSlashCommand({ command: commands[1] as SlashCommand, input: "to a beginner" }),
+    ).toBe("Explain this code\nto a beginner");
+  });
+
+  it("calls template functions", () => {
+    expect(expandSlashCommand({ command: commands[2] as SlashCommand, input: "hey" })).toBe("HEY");
+  });
+
+  it("has the documented defaults", () => {
+    expect(defaultSlashCommands.map((command) => command.id)).toEqual([
+      "doc",
+      "fix",
+      "tests",
+      "types",
+    ]);
+  });
+});
+
+describe("promptContext", () => {
+  const doc = "import os\n\ndef foo():\n    x = 1\n    return x\n\nprint(foo())";
+  const state = EditorState.create({ doc, extensions: [python()] });
+  const from = doc.indexOf("    x = 1");
+  const to = from + "    x = 1".length;
+
+  it("sends the rest of the file by default", () => {
+    expect(promptContext(state, from, to)).toEqual({
+      codeBefore: doc.slice(0, from),
+      codeAfter: doc.slice(to),
+    });
+  });
+
+  it("sends nothing for the selection policy", () => {
+    expect(promptContext(state, from, to, "selection")).toEqual({ codeBefore: "", codeAfter: "" });
+  });
+
+  it("sends the enclosing function for the function policy", () => {
+    expect(promptContext(state, from, to, "function")).toEqual({
+      codeBefore: "def foo():\n",
+      codeAfter: "\n    return x\n",
+    });
+  });
+
+  it("falls back to the file outside of a function", () => {
+    const printFrom = doc.indexOf("print");
+    expect(promptContext(state, printFrom, doc.length, "function")).toEqual({
+      codeBefore: doc.slice(0, printFrom),
+      codeAfter: "",
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import type { EditorState } from "@codemirror/state";
+import type { ChatMessage, LanguageInfo } from "./state.js";
+
+/** What an autocomplete prompt is written from */
+export interface AutocompletePromptContext {
+  state: EditorState;
+  /** The code before the current line, trimmed to the context budget */
+  codeBefore: string;
+  /** The whole line the cursor is on, which the suggestion replaces */
+  currentLine: string;
+  /** The code after the current line, trimmed to the context budget */
+  codeAfter: string;
+  language: LanguageInfo;
+  /** Name of the file being edited, from the `fileName` option */
+  fileName?: string;
+}
+
+/**
+ * The prompt sent for autocomplete suggestions. A string, or the
+ * contents of chat messages, can have the slots `{code_before}`,
+ * `{current_line}`, `{code_after}`, `{language}` and `{file_name}`.
+ * A function gets the same values and returns either, which is used
+ * as is.
+ */
+export type AutocompletePromptTemplate =
+  | string
+  | ChatMessage[]
+  | ((context: AutocompletePromptContext) => string | ChatMessage[]);
+
+/** The template used when no other is given */
+export const defaultAutocompletePrompt = `You are an intelligent code auto-completion system. Complete the code by first rewriting the current line entirely, then continuing with appropriate additional lines if needed.
+
+<instructions>
+- REWRITE THE ENTIRE CURRENT LINE completely from start to finish
+- After rewriting the current line, continue with additional lines if appropriate (1-10 lines total)
+- The rewritten line and any new lines must fit seamlessly with surrounding code
+- Study the patterns in surrounding code (indentation, naming, formatting, style)
+- Match the exact coding style, patterns, and conventions used in the file
+- Your completion must consider both the code before AND after the current line
+- Ensure your completion maintains the structural integrity of the code
+- DO NOT include the existing prefix in your response, as the ENTIRE line will be replaced
+</instructions>
+
+<code_before>
+{code_before}
+</code_before>
+
+<current_line>
+{current_line}
+</current_line>
+
+<code_after>
+{code_after}
+</code_after>
+
+First, rewrite the entire current line completely, then continue with appropriate additional lines if needed (1-10 lines total):`;
+
+/**
+ * The template for the language being edited: the one in `byLanguage`
+ * whose key is the language's name, ignoring case, or else `template`
+ */
+export function promptTemplateFor(
+  language: LanguageInfo,
+  template: AutocompletePromptTemplate = defaultAutocompletePrompt,
+  byLanguage: Record<string, AutocompletePromptTemplate> = {},
+): AutocompletePromptTemplate {
+  const name = language.name?.toLowerCase();
+  const key = Object.keys(byLanguage).find((key) => key.toLowerCase() === name);
+  return (key !== undefined && byLanguage[key]) || template;
+}
+
+/** Write a prompt from a template, filling in its slots */
+export function renderAutocompletePrompt(
+  template: AutocompletePromptTemplate,
+  context: AutocompletePromptContext,
+): string | ChatMessage[] {
+  if (typeof template === "function") return template(context);
+  if (typeof template === "string") return fillSlots(template, context);
+  return template.map((message) => ({ ...message, content: fillSlots(message.content, context) }));
+}
+
+const SLOT = /\{(code_before|current_line|code_after|language|file_name)\}/g;
+
+/** Fill in the slots in one pass, so code that looks like a slot is left alone */
+function fillSlots(text: string, context: AutocompletePromptContext) {
+  const values: Record<string, string> = {
+    code_before: context.codeBefore,
+    current_line: context.currentLine,
+    code_after: context.codeAfter,
+    language: context.language.name ?? "",
+    file_name: context.fileName ?? "",
+  };
+  return text.replace(SLOT, (_, slot: string) => values[slot] ?? "");
+}
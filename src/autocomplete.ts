@@ -1,6 +1,12 @@
 import { EditorState, StateEffect, StateField } from "@codemirror/state";
 import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, keymap, WidgetType } from "@codemirror/view";
-import { debouncePromise } from "./utils.js";
+import { collectCandidates, debouncePromise, suggestionPart } from "./utils.js";
+import { languageInfo } from "./language-info.js";
+import { type RequestPolicy, runRequest } from "./request-runner.js";
+import { type PostProcessor, defaultPostProcessors, postProcess } from "./post-process.js";
+import { contextBudget, windowContext } from "./context-window.js";
+import { type AutocompletePromptTemplate, promptTemplateFor, renderAutocompletePrompt } from "./autocomplete-prompt.js";
+import { type FimModelFamily, type FimTokens, fimPrompt, resolveFimTokens, trimAtStopTokens } from "./fim.js";
 import type { AiOptions } from "./state.js";
 import { suggestionStyle } from "./theme.js";
 
@@ -9,25 +15,88 @@ export interface AutocompleteOptions extends AiOptions {
   autocompleteDebounceTime?: number;
   /** Whether to enable autocomplete */
   enableAutocomplete?: boolean;
+  /**
+   * How many alternative suggestions to ask for (as `n`). Defaults to 1.
+   * When `prompt` returns several, they can be cycled through.
+   */
+  autocompleteCandidates?: number;
+  /**
+   * How suggestions are asked for. `"rewrite"`, the default, sends an
+   * instruction prompt and has the model rewrite the current line.
+   * `"fim"` sends the exact code before and after the cursor in a
+   * fill-in-the-middle prompt, and the answer is inserted at the cursor.
+   */
+  autocompleteMode?: "rewrite" | "fim";
+  /**
+   * The sentinel tokens of FIM prompts: those of a model family, like
+   * `"qwen"`, or tokens of your own. Defaults to `"starcoder"`.
+   */
+  fimTokens?: FimModelFamily | FimTokens;
+  /**
+   * Timeout and retries for autocomplete requests. By default a request
+   * times out after 10 seconds, and is tried once more after network
+   * errors, timeouts and rate limiting.
+   */
+  autocompleteRequestPolicy?: RequestPolicy;
+  /**
+   * Steps that clean up suggestions before they're shown, in order.
+   * Defaults to `defaultPostProcessors`, or to none in FIM mode.
+   */
+  autocompletePostProcessors?: readonly PostProcessor[];
+  /**
+   * The prompt sent for suggestions, as a template with slots like
+   * `{current_line}`, or a function writing it. Defaults to
+   * `defaultAutocompletePrompt`. Not used in FIM mode.
+   */
+  autocompletePrompt?: AutocompletePromptTemplate;
+  /** Templates used for particular languages, by language name, like `python` */
+  autocompletePromptByLanguage?: Record<string, AutocompletePromptTemplate>;
+  /** Name of the file being edited, for the `{file_name}` slot */
+  fileName?: string | ((state: EditorState) => string | undefined);
   /** Custom keymaps for autocomplete */
   autocompleteKeymaps?: {
     acceptSuggestion?: string;
+    /** Accept the suggestion up to the end of its next word */
+    acceptNextWord?: string;
+    /** Accept the suggestion up to the end of its next line */
+    acceptNextLine?: string;
     rejectSuggestion?: string;
+    /** Show the next of several candidates */
+    nextCandidate?: string;
+    /** Show the previous of several candidates */
+    previousCandidate?: string;
   };
-  /** Called when user accepts a suggestion */
-  onAcceptSuggestion?: (suggestion: string) => void;
+  /**
+   * Called when user accepts a suggestion, or part of it. `accepted`
+   * is the part accepted, or the whole suggestion.
+   */
+  onAcceptSuggestion?: (suggestion: string, accepted: string) => void;
   /** Called when user rejects a suggestion */
   onRejectSuggestion?: (suggestion: string) => void;
 }
 
 const DEFAULT_AUTOCOMPLETE_DEBOUNCE = 300;
+const DEFAULT_AUTOCOMPLETE_REQUEST_POLICY: RequestPolicy = { timeout: 10_000, retries: 1 };
 const DEFAULT_AUTOCOMPLETE_KEYMAPS = {
   acceptSuggestion: "Tab",
+  acceptNextWord: "Mod-ArrowRight",
+  acceptNextLine: "Mod-ArrowDown",
   rejectSuggestion: "Escape",
+  nextCandidate: "Alt-]",
+  previousCandidate: "Alt-[",
 };
 
 interface AutocompleteSuggestion {
   suggestion: string | null;
+  /**
+   * Where the suggestion is inserted as is, in FIM mode. Other
+   * suggestions replace the current line.
+   */
+  insertAt?: number;
+  /** All the candidates, when `prompt` returned several */
+  candidates?: string[];
+  /** Index of the candidate in `candidates` that's shown */
+  candidate?: number;
 }
 
 export const AutocompleteSuggestionState = StateField.define<AutocompleteSuggestion>({
@@ -35,7 +104,7 @@ export const AutocompleteSuggestionState = StateField.define<AutocompleteSuggest
   update(value, tr) {
     const effect = tr.effects.find((e) => e.is(AutocompleteSuggestionEffect));
     if (!tr.docChanged && !effect) return value;
-    if (effect) return { suggestion: effect.value };
+    if (effect) return effect.value ?? { suggestion: null };
     return { suggestion: null };
   }
 });
@@ -43,7 +112,7 @@ export const AutocompleteSuggestionState = StateField.define<AutocompleteSuggest
 /**
  * Effect to update the autocomplete suggestion
  */
-const AutocompleteSuggestionEffect = StateEffect.define<string | null>();
+const AutocompleteSuggestionEffect = StateEffect.define<AutocompleteSuggestion | null>();
 
 /**
  * Widget that renders the autocomplete suggestion
@@ -58,29 +127,65 @@ class AutocompleteSuggestionWidget extends WidgetType {
     span.className = "cm-ai-suggestion";
     
     // Display only the part of the suggestion that's different from what's already typed
-    const commonPrefixLength = this.findCommonPrefixLength(this.currentLine, this.suggestion);
-    span.textContent = this.suggestion.slice(commonPrefixLength);
+    span.textContent = this.suggestion.slice(commonPrefixLength(this.currentLine, this.suggestion));
     
     return span;
   }
 
-  private findCommonPrefixLength(a: string, b: string): number {
-    let i = 0;
-    while (i < a.length && i < b.length && a[i] === b[i]) {
-      i++;
-    }
-    return i;
-  }
-
   eq(other: AutocompleteSuggestionWidget) {
     return other.suggestion === this.suggestion && other.currentLine === this.currentLine;
   }
 }
 
+/**
+ * Widget that shows which of several candidates is shown, like "1/3"
+ */
+class CandidateCountWidget extends WidgetType {
+  constructor(readonly index: number, readonly count: number) {
+    super();
+  }
+
+  toDOM() {
+    const span = document.createElement("span");
+    span.className = "cm-ai-suggestion-count";
+    span.textContent = `${this.index + 1}/${this.count}`;
+    span.setAttribute("aria-label", `Suggestion ${this.index + 1} of ${this.count}`);
+    return span;
+  }
+
+  eq(other: CandidateCountWidget) {
+    return other.index === this.index && other.count === this.count;
+  }
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) {
+    i++;
+  }
+  return i;
+}
+
 /**
  * Creates a decoration for the autocomplete suggestion
  */
-function autocompleteSuggestionDecoration(view: EditorView, suggestion: string) {
+function autocompleteSuggestionDecoration(view: EditorView, { suggestion, insertAt, candidates, candidate = 0 }: AutocompleteSuggestion) {
+  if (!suggestion) return Decoration.none;
+  // Several candidates get a count after the suggestion
+  const count = candidates && candidates.length > 1
+    ? [Decoration.widget({ widget: new CandidateCountWidget(candidate, candidates.length), side: 2 })]
+    : [];
+  if (insertAt !== undefined) {
+    // Nothing is replaced, so the suggestion is shown as it will be inserted
+    return Decoration.set([
+      Decoration.widget({
+        widget: new AutocompleteSuggestionWidget(suggestion, ""),
+        side: 1,
+      }).range(insertAt),
+      ...count.map((widget) => widget.range(insertAt)),
+    ]);
+  }
+
   const pos = view.state.selection.main.head;
   const line = view.state.doc.lineAt(pos);
   const currentLineText = line.text;
@@ -98,7 +203,8 @@ function autocompleteSuggestionDecoration(view: EditorView, suggestion: string)
       widget: new AutocompleteSuggestionWidget(suggestion, currentLineText),
       side: 1,
     }).range(pos),
-  ]);
+    ...count.map((widget) => widget.range(pos)),
+  ], true);
 }
 
 /**
@@ -108,6 +214,16 @@ const acceptSuggestion = (view: EditorView) => {
   const state = view.state.field(AutocompleteSuggestionState);
   if (!state.suggestion) return false;
 
+  if (state.insertAt !== undefined) {
+    view.dispatch({
+      changes: { from: state.insertAt, insert: state.suggestion },
+      selection: { anchor: state.insertAt + state.suggestion.length },
+      effects: AutocompleteSuggestionEffect.of(null),
+      userEvent: "input.accept"
+    });
+    return true;
+  }
+
   const pos = view.state.selection.main.head;
   const line = view.state.doc.lineAt(pos);
   
@@ -146,6 +262,53 @@ const acceptSuggestion = (view: EditorView) => {
   return true;
 };
 
+/**
+ * Command to accept the start of the current suggestion, up to the end
+ * of its next word or line. The rest of it stays shown, to be inserted
+ * at the cursor. Returns the accepted text, or null without a suggestion.
+ */
+const acceptSuggestionPart = (view: EditorView, unit: "word" | "line") => {
+  const { suggestion, insertAt } = view.state.field(AutocompleteSuggestionState);
+  if (!suggestion) return null;
+
+  // A suggestion that replaces the current line only shows what isn't typed yet
+  const line = view.state.doc.lineAt(view.state.selection.main.head);
+  const { from, to } = insertAt === undefined ? line : { from: insertAt, to: insertAt };
+  const typed = insertAt === undefined ? suggestion.slice(0, commonPrefixLength(line.text, suggestion)) : "";
+  const shown = suggestion.slice(typed.length);
+  const accepted = suggestionPart(shown, unit);
+  const rest = shown.slice(accepted.length);
+  const end = from + typed.length + accepted.length;
+
+  view.dispatch({
+    changes: { from, to, insert: typed + accepted },
+    selection: { anchor: end },
+    effects: AutocompleteSuggestionEffect.of(rest ? { suggestion: rest, insertAt: end } : null),
+    userEvent: rest ? "input.accept.partial" : "input.accept"
+  });
+
+  return accepted;
+};
+
+/**
+ * Command to show another of several candidates, `offset` away from the current one
+ */
+const cycleSuggestion = (view: EditorView, offset: number) => {
+  const state = view.state.field(AutocompleteSuggestionState);
+  const { candidates, candidate = 0 } = state;
+  if (!candidates || candidates.length < 2) return false;
+
+  const index = (candidate + offset + candidates.length) % candidates.length;
+  view.dispatch({
+    effects: AutocompleteSuggestionEffect.of({
+      ...state,
+      suggestion: candidates[index] ?? null,
+      candidate: index,
+    }),
+  });
+  return true;
+};
+
 /**
  * Command to reject the current suggestion
  */
@@ -213,77 +376,72 @@ export function createAutocompletePlugin(options: AutocompleteOptions) {
           const currentLineSuffix = state.doc.sliceString(pos, line.to);
           const currentFullLine = state.doc.sliceString(line.from, line.to);
           
-          const beforeContext = linesBeforeCurrent.join('\n');
-          const afterContext = linesAfterCurrent.join('\n');
-
-          // Don't suggest if we're at the start of a line with no content
-          if (!currentFullLine.trim()) {
+          // Trim the context to the budget, if there is one
+          const budget = contextBudget(options);
+          const { codeBefore: beforeContext, codeAfter: afterContext } = budget
+            ? windowContext(
+                state,
+                { from: 0, to: Math.max(0, line.from - 1) },
+                { from: Math.min(line.to + 1, state.doc.length), to: state.doc.length },
+                budget,
+              )
+            : { codeBefore: linesBeforeCurrent.join('\n'), codeAfter: linesAfterCurrent.join('\n') };
+
+          // Don't suggest if we're at the start of a line with no content,
+          // unless filling in the middle, where blank lines are the common case
+          const fim = options.autocompleteMode === "fim";
+          if (!fim && !currentFullLine.trim()) {
             view.dispatch({
               effects: AutocompleteSuggestionEffect.of(null),
             });
             return;
           }
 
-          // Remove language detection logic
           try {
-            const suggestion = await options.prompt({
-              prompt: `You are an intelligent code auto-completion system. Complete the code by first rewriting the current line entirely, then continuing with appropriate additional lines if needed.
-
-<instructions>
-- REWRITE THE ENTIRE CURRENT LINE completely from start to finish
-- After rewriting the current line, continue with additional lines if appropriate (1-10 lines total)
-- The rewritten line and any new lines must fit seamlessly with surrounding code
-- Study the patterns in surrounding code (indentation, naming, formatting, style)
-- Match the exact coding style, patterns, and conventions used in the file
-- Your completion must consider both the code before AND after the current line
-- Ensure your completion maintains the structural integrity of the code
-- DO NOT include the existing prefix in your response, as the ENTIRE line will be replaced
-</instructions>
-
-<code_before>
-${beforeContext}
-</code_before>
-
-<current_line>
-${currentFullLine}
-</current_line>
-
-<code_after>
-${afterContext}
-</code_after>
-
-First, rewrite the entire current line completely, then continue with appropriate additional lines if needed (1-10 lines total):`,
+            const language = languageInfo(state, pos, pos);
+            const fimTokens = resolveFimTokens(options.fimTokens);
+            // In FIM mode the code around the cursor is sent exactly
+            const codeBefore = fim
+              ? (line.number > 1 ? `${beforeContext}\n` : "") + currentLinePrefix
+              : beforeContext;
+            const codeAfter = fim
+              ? currentLineSuffix + (line.number < totalLines ? `\n${afterContext}` : "")
+              : afterContext;
+            const fileName = typeof options.fileName === "function" ? options.fileName(state) : options.fileName;
+            const prompt = fim
+              ? fimPrompt(codeBefore, codeAfter, fimTokens)
+              : renderAutocompletePrompt(
+                  promptTemplateFor(language, options.autocompletePrompt, options.autocompletePromptByLanguage),
+                  { state, codeBefore, currentLine: currentFullLine, codeAfter, language, fileName },
+                );
+            const n = options.autocompleteCandidates ?? 1;
+            const results = await runRequest((signal) => collectCandidates(options.prompt({
+              prompt: typeof prompt === "string" ? prompt : prompt.map((message) => message.content).join("\n\n"),
+              ...(fim ? { fim } : { messages: typeof prompt === "string" ? [{ role: "user" as const, content: prompt }] : prompt }),
               editorView: view,
               selection: "",
-              codeBefore: beforeContext,
-              codeAfter: afterContext,
-              signal: abortController.signal,
-            });
-
-            // Clean up the suggestion 
-            let cleanedSuggestion = suggestion
-              .replace(/^```[\s\S]*?\n/, '') // Remove opening code fence
-              .replace(/\n```$/, '')         // Remove closing code fence
-              .trim();
-              
-            // If the suggestion has XML-like tags, extract just the code
-            if (cleanedSuggestion.includes('<code>') && cleanedSuggestion.includes('</code>')) {
-              cleanedSuggestion = cleanedSuggestion
-                .replace(/[\s\S]*?<code>([\s\S]*?)<\/code>[\s\S]*/g, '$1')
-                .trim();
-            }
-
-            // Handle indentation for additional lines
-            if (cleanedSuggestion.includes('\n')) {
-              // Get indentation of the current line
-              const currentLineIndent = currentFullLine.match(/^(\s*)/)?.[1] || '';
-              
-              // Apply indentation to all lines after the first
-              cleanedSuggestion = cleanedSuggestion
-                .split('\n')
-                .map((line, idx) => idx === 0 ? line : currentLineIndent + line)
-                .join('\n');
-            }
+              codeBefore,
+              codeAfter,
+              signal,
+              language,
+              ...(n > 1 && { n }),
+            })), { ...DEFAULT_AUTOCOMPLETE_REQUEST_POLICY, ...options.autocompleteRequestPolicy }, abortController.signal);
+
+            // Clean up the suggestions, which are inserted at the cursor in
+            // FIM mode, and replace the current line otherwise
+            const cleaned = results.map((suggestion) => fim
+              ? postProcess(
+                  trimAtStopTokens(suggestion, fimTokens),
+                  options.autocompletePostProcessors ?? [],
+                  { state, from: pos, to: pos, oldCode: "" },
+                )
+              : postProcess(
+                  suggestion,
+                  options.autocompletePostProcessors ?? defaultPostProcessors,
+                  { state, from: line.from, to: line.to, oldCode: currentFullLine },
+                ));
+            const candidates = [...new Set(cleaned)].filter((suggestion) => suggestion);
+            const cleanedSuggestion = candidates[0] ?? null;
 
             // Only apply the suggestion if it's from the most recent request
             // and the signal hasn't been aborted
@@ -294,7 +452,11 @@ First, rewrite the entire current line completely, then continue with appropriat
                 const currentSuggestion = state.field(AutocompleteSuggestionState).suggestion;
                 if (cleanedSuggestion !== currentSuggestion) {
                   view.dispatch({
-                    effects: AutocompleteSuggestionEffect.of(cleanedSuggestion),
+                    effects: AutocompleteSuggestionEffect.of({
+                      suggestion: cleanedSuggestion,
+                      ...(fim && { insertAt: pos }),
+                      ...(candidates.length > 1 && { candidates, candidate: 0 }),
+                    }),
                   });
                 }
               }
@@ -311,6 +473,12 @@ First, rewrite the entire current line completely, then continue with appropriat
 
       update(update: ViewUpdate) {
         const state = update.state.field(AutocompleteSuggestionState);
+
+        // The rest of a partly accepted suggestion is still shown
+        if (update.transactions.some((tr) => tr.isUserEvent("input.accept.partial"))) {
+          this.decorations = autocompleteSuggestionDecoration(update.view, state);
+          return;
+        }
         
         // Only update if the document changed or selection changed
         if (update.docChanged || update.selectionSet) {
@@ -346,18 +514,14 @@ First, rewrite the entire current line completely, then continue with appropriat
             return;
           }
 
-          this.decorations = state.suggestion
-            ? autocompleteSuggestionDecoration(update.view, state.suggestion)
-            : Decoration.none;
+          this.decorations = autocompleteSuggestionDecoration(update.view, state);
 
           // Only fetch new suggestions if autocomplete is enabled
           if (options.enableAutocomplete !== false) {
             this.debouncedFetch(update.state, update.view);
           }
         } else {
-          this.decorations = state.suggestion
-            ? autocompleteSuggestionDecoration(update.view, state.suggestion)
-            : Decoration.none;
+          this.decorations = autocompleteSuggestionDecoration(update.view, state);
         }
       }
 
@@ -375,10 +539,15 @@ First, rewrite the entire current line completely, then continue with appropriat
       decorations: (v) => v.decorations,
       eventHandlers: {
         keydown: (e, view) => {
-          // Clear suggestion on certain keys
+          // Clear suggestion on certain keys, once the keymaps have run,
+          // unless a binding like the one accepting the next word used it
           if (["ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight"].includes(e.key)) {
-            view.dispatch({
-              effects: AutocompleteSuggestionEffect.of(null),
+            const suggestion = view.state.field(AutocompleteSuggestionState);
+            queueMicrotask(() => {
+              if (view.state.field(AutocompleteSuggestionState) !== suggestion) return;
+              view.dispatch({
+                effects: AutocompleteSuggestionEffect.of(null),
+              });
             });
           }
           
@@ -443,13 +612,26 @@ export function aiAutocomplete(options: AutocompleteOptions) {
           
           // Only call callback if the suggestion was actually accepted
           if (result && options.onAcceptSuggestion && suggestion) {
-            options.onAcceptSuggestion(suggestion);
+            options.onAcceptSuggestion(suggestion, suggestion);
           }
           return result;
         },
         preventDefault: true,
         stopPropagation: true
       },
+      { key: keymaps.nextCandidate, run: (view) => cycleSuggestion(view, 1) },
+      { key: keymaps.previousCandidate, run: (view) => cycleSuggestion(view, -1) },
+      ...(["word", "line"] as const).map((unit) => ({
+        key: unit === "word" ? keymaps.acceptNextWord : keymaps.acceptNextLine,
+        run: (view: EditorView) => {
+          const { suggestion } = view.state.field(AutocompleteSuggestionState);
+          const accepted = acceptSuggestionPart(view, unit);
+          if (accepted === null || !suggestion) return false;
+
+          options.onAcceptSuggestion?.(suggestion, accepted);
+          return true;
+        },
+      })),
       {
         key: keymaps.rejectSuggestion,
         run: (view) => {
@@ -1,42 +1,63 @@
-import { EditorSelection } from "@codemirror/state";
-import type { Command, EditorView } from "@codemirror/view";
+import { EditorSelection, type EditorState, type SelectionRange } from "@codemirror/state";
+import { type Command, EditorView } from "@codemirror/view";
+import { contextBudget } from "./context-window.js";
+import { type DiffHunk, completionHunks } from "./diff.js";
+import { PENDING_EDIT, resolvedEdit } from "./edit-history.js";
+import { editRequestPlugin, finishStreaming, showCompletionResult } from "./edit-request.js";
+import { AiError } from "./errors.js";
+import { languageInfo } from "./language-info.js";
+import { editRequestPolicy, runRequest } from "./request-runner.js";
+import { promptContext } from "./slash-commands.js";
 import {
+  type CompletionState,
+  type SyntaxIssue,
   completionState,
+  completionsState,
+  optionsFacet,
+  removeCompletion,
   setInputFocus,
+  setInputMentions,
   setInputValue,
   setLoading,
   showCompletion,
   showInput,
 } from "./state.js";
+import { repairInstruction, syntaxIssues } from "./syntax-check.js";
+import { isAbortError } from "./utils.js";
 
 // Validation constants
 const MIN_SELECTION_LENGTH = 1;
 
 /**
- * Command to show the input prompt
+ * Command to show the input prompt. With a selection, the result
+ * replaces the selected lines (or just the selected text, in
+ * `"selection"` edit range mode); without one, it's inserted at
+ * the cursor. With several selections, the prompt applies to
+ * each of them.
  */
 export const showAiEditInput: Command = (view: EditorView) => {
   const { state } = view;
   const selection = state.selection.main;
-
-  // If the selection is empty, hide the tooltip.
-  if (selection.empty) {
-    return false;
-  }
-
   const doc = state.doc;
-  const fromLine = doc.lineAt(selection.from);
-  const toLine = doc.lineAt(selection.to);
+  const exact = state.facet(optionsFacet).editRange === "selection";
 
-  // Get the full line content by using line boundaries
-  const selectionText = state.sliceDoc(fromLine.from, toLine.to);
-  if (selectionText.trim().length < MIN_SELECTION_LENGTH) {
-    return false;
+  const main = editTarget(state, selection, exact);
+  if (!main) return false;
+
+  // Other selections that don't overlap an earlier target
+  const others: EditTarget[] = [];
+  for (const range of state.selection.ranges) {
+    if (range === selection) continue;
+    const target = editTarget(state, range, exact);
+    if (target && ![main, ...others].some((other) => overlaps(target, other))) {
+      others.push(target);
+    }
   }
 
   // Ensure line numbers are within document bounds
-  const safeLineFrom = Math.max(1, Math.min(fromLine.number, doc.lines));
-  const safeLineTo = Math.max(1, Math.min(toLine.number, doc.lines));
+  const safeLineFrom = Math.max(1, Math.min(doc.lineAt(main.from).number, doc.lines));
+  const safeLineTo = Math.max(1, Math.min(doc.lineAt(main.to).number, doc.lines));
+  const lineAligned = !exact && !selection.empty;
 
   view.dispatch({
     effects: [
@@ -44,15 +65,42 @@ export const showAiEditInput: Command = (view: EditorView) => {
         show: true,
         lineFrom: safeLineFrom,
         lineTo: safeLineTo,
+        range: lineAligned ? undefined : main,
+        others: others.length ? others.sort((a, b) => a.from - b.from) : undefined,
       }),
       setInputFocus.of(true),
       setInputValue.of(""),
+      setInputMentions.of([]),
     ],
-    selection: EditorSelection.cursor(fromLine.from),
+    // Keep an empty selection where it is, for inserting
+    selection: selection.empty ? undefined : EditorSelection.cursor(main.from),
   });
   return true;
 };
 
+interface EditTarget {
+  from: number;
+  to: number;
+}
+
+/**
+ * The range an edit of a selection range replaces: the whole lines,
+ * or exactly the selection. An empty range is an insertion point.
+ * Returns null for a selection with nothing but whitespace in it.
+ */
+function editTarget(state: EditorState, range: SelectionRange, exact: boolean): EditTarget | null {
+  if (range.empty) return { from: range.head, to: range.head };
+  const target = exact
+    ? { from: range.from, to: range.to }
+    : { from: state.doc.lineAt(range.from).from, to: state.doc.lineAt(range.to).to };
+  const text = state.sliceDoc(target.from, target.to);
+  return text.trim().length < MIN_SELECTION_LENGTH ? null : target;
+}
+
+function overlaps(a: EditTarget, b: EditTarget) {
+  return (a.from < b.to && b.from < a.to) || a.from === b.from;
+}
+
 /** Command to close the input prompt */
 export const closeAiEditInput: Command = (view: EditorView) => {
   view.dispatch({
@@ -60,49 +108,432 @@ export const closeAiEditInput: Command = (view: EditorView) => {
       showInput.of({ show: false, lineFrom: 0, lineTo: 0 }),
       setInputFocus.of(false),
       setInputValue.of(""),
+      setInputMentions.of([]),
       setLoading.of(false),
     ],
   });
   return true;
 };
 
-/** Command to accept the completion */
+/**
+ * Command to accept the completion at the cursor (or the
+ * only one), writing its new code to the document if it was
+ * only a preview. See also {@link acceptAllAiEdits}.
+ */
 export const acceptAiEdit: Command = (view: EditorView) => {
   const completionStateValue = view.state.field(completionState);
   if (completionStateValue) {
-    view.dispatch({
-      effects: [
-        showCompletion.of(null),
-        showInput.of({ show: false, lineFrom: 0, lineTo: 0 }),
-        setInputFocus.of(false),
-        setInputValue.of(""),
-        setLoading.of(false),
-      ],
-    });
+    resolveEdits(view, [completionStateValue], true);
     return true;
   }
   return false;
 };
 
-/** Command to reject the completion */
+/**
+ * Command to reject the completion at the cursor (or the
+ * only one). See also {@link rejectAllAiEdits}.
+ *
+ * An edit whose code was changed by something else in the
+ * meantime is just dismissed, leaving the document as it is.
+ */
 export const rejectAiEdit: Command = (view: EditorView) => {
   const completionStateValue = view.state.field(completionState);
   if (completionStateValue) {
+    resolveEdits(view, [completionStateValue], false);
+    return true;
+  }
+  return false;
+};
+
+/** Command to accept all pending edits */
+export const acceptAllAiEdits: Command = (view: EditorView) => {
+  const edits = view.state.field(completionsState);
+  if (!edits.length) return false;
+  resolveEdits(view, edits, true);
+  return true;
+};
+
+/** Command to reject all pending edits, restoring their old code */
+export const rejectAllAiEdits: Command = (view: EditorView) => {
+  const edits = view.state.field(completionsState);
+  if (!edits.length) return false;
+  resolveEdits(view, edits, false);
+  return true;
+};
+
+/**
+ * Accept or reject pending edits as a single undo history event.
+ *
+ * The document already has the new code of each edit, or its old code
+ * for a preview, so only the edits that don't have the code they end
+ * up with are written. The history records the pending edits along
+ * with that change (see `editHistory`), so undoing it brings them back
+ * as they were, and redoing it closes them again.
+ */
+function resolveEdits(view: EditorView, edits: readonly CompletionState[], accept: boolean) {
+  view.dispatch({
+    changes: edits.map(({ from, to, oldCode, newCode, conflict }) => {
+      const code = accept ? newCode : oldCode;
+      return conflict || view.state.sliceDoc(from, to) === code ? [] : { from, to, insert: code };
+    }),
+    effects: removeEditEffects(view.state, edits),
+    ...resolvedEdit(accept ? "ai.accept" : "ai.reject"),
+  });
+}
+
+/**
+ * Command to stop a completion that is still streaming in,
+ * keeping what has arrived so far as the proposed edit.
+ * Also cancels a follow-up instruction that is being processed.
+ */
+export const stopAiEdit: Command = (view: EditorView) => {
+  const completionStateValue = view.state.field(completionState);
+  if (!completionStateValue?.streaming && !completionStateValue?.refining) return false;
+  if (completionStateValue.streaming) {
+    // What has come in so far is cleaned up like a whole answer
+    finishStreaming(view);
+    return true;
+  }
+  view.dispatch({ effects: showCompletion.of({ ...completionStateValue, refining: false }) });
+  return true;
+};
+
+/**
+ * Refine the pending edit with a follow-up instruction, like
+ * "also rename x". The instruction that produced the current
+ * proposal and the proposal itself are sent along as `history`,
+ * and the result replaces the proposal in place.
+ *
+ * Resolves to whether the proposal was replaced.
+ */
+export async function refineAiEdit(view: EditorView, instruction: string): Promise<boolean> {
+  const completion = view.state.field(completionState);
+  const prompt = instruction.trim();
+  if (!completion || completion.streaming || completion.refining || completion.conflict) {
+    return false;
+  }
+  if (!prompt) return false;
+  return followUp(view, completion, prompt);
+}
+
+/**
+ * Ask for the syntax errors found in the pending edit (with the
+ * `validateSyntax` option) to be fixed, as a follow-up instruction
+ * that lists where they are. They're also sent as `syntaxErrors`.
+ *
+ * Resolves to whether the proposal was replaced.
+ */
+export async function repairAiEdit(view: EditorView): Promise<boolean> {
+  const completion = view.state.field(completionState);
+  if (!completion || completion.streaming || completion.refining || completion.conflict) {
+    return false;
+  }
+  const issues = syntaxIssues(view.state, completion);
+  if (!issues.length) return false;
+  return followUp(view, completion, repairInstruction(issues), issues);
+}
+
+/** Replace a pending edit's proposal with the answer to a follow-up instruction */
+async function followUp(
+  view: EditorView,
+  completion: CompletionState,
+  prompt: string,
+  syntaxErrors?: SyntaxIssue[],
+) {
+  const options = view.state.facet(optionsFacet);
+  const history = [
+    ...(completion.history ?? []),
+    { prompt: completion.prompt ?? "", response: completion.newCode },
+  ];
+
+  view.dispatch({ effects: showCompletion.of({ ...completion, refining: true }) });
+  const signal = view.plugin(editRequestPlugin)?.start();
+
+  try {
+    const result = await runRequest(
+      (signal) =>
+        options.prompt({
+          prompt,
+          selection: completion.oldCode,
+          ...promptContext(
+            view.state,
+            completion.from,
+            completion.to,
+            "file",
+            contextBudget(options),
+          ),
+          editorView: view,
+          signal,
+          history,
+          n: options.candidates ?? 1,
+          context: completion.context,
+          language: languageInfo(view.state, completion.from, completion.to),
+          ...(syntaxErrors && { syntaxErrors }),
+        }),
+      editRequestPolicy(options),
+      signal,
+    );
+
+    // Accepted, rejected or cancelled in the meantime
+    const current = view.state.field(completionState);
+    if (!current?.refining) return false;
+
+    await showCompletionResult(
+      view,
+      result,
+      {
+        from: current.from,
+        to: current.to,
+        completion: {
+          oldCode: current.oldCode,
+          baseCode: current.baseCode,
+          prompt,
+          context: current.context,
+          history,
+          id: current.id,
+          ...(syntaxErrors && { repaired: true }),
+        },
+        isWanted: (state) => state.field(completionState)?.refining === true,
+        effects: [],
+      },
+      signal,
+    );
+    return true;
+  } catch (error) {
+    if (!isAbortError(error)) {
+      options.onError?.(AiError.from(error));
+    }
+    const current = view.state.field(completionState);
+    if (current?.refining) {
+      view.dispatch({ effects: showCompletion.of({ ...current, refining: false }) });
+    }
+    return false;
+  }
+}
+
+/**
+ * Effects that close some of the pending edits, and
+ * reset the input if they were the last ones
+ */
+function removeEditEffects(state: EditorState, edits: readonly CompletionState[]) {
+  const others = state.field(completionsState).filter((other) => !edits.includes(other));
+  const ids = edits.flatMap((edit) => (edit.id === undefined ? [] : [edit.id]));
+  return ids.length === edits.length && others.length
+    ? ids.map((id) => removeCompletion.of(id))
+    : clearEditEffects();
+}
+
+/** Effects that close the pending edits and reset the input */
+function clearEditEffects() {
+  return [
+    showCompletion.of(null),
+    showInput.of({ show: false, lineFrom: 0, lineTo: 0 }),
+    setInputFocus.of(false),
+    setInputValue.of(""),
+    setLoading.of(false),
+  ];
+}
+
+/**
+ * The hunks of the pending edit, or null if there is none
+ * (or it's still streaming in and can't be split up yet)
+ */
+function pendingHunks(state: EditorState) {
+  const completion = state.field(completionState);
+  if (!completion || completion.streaming || completion.conflict) return null;
+  return { completion, hunks: completionHunks(completion) };
+}
+
+/** Index of the line holding the cursor, relative to the first line of the edit */
+function cursorLineIndex(state: EditorState, completion: CompletionState) {
+  const { doc } = state;
+  return doc.lineAt(state.selection.main.head).number - doc.lineAt(completion.from).number;
+}
+
+/**
+ * The lines of a hunk in the document, relative to the first line of
+ * the edit: its new lines, or its old ones when the edit is a preview
+ */
+function hunkLines(completion: CompletionState, hunk: DiffHunk) {
+  return completion.preview
+    ? { lineFrom: hunk.oldLineFrom, lineTo: hunk.oldLineTo }
+    : { lineFrom: hunk.newLineFrom, lineTo: hunk.newLineTo };
+}
+
+/** Index of the hunk at the cursor, or the first hunk after it */
+function hunkAtCursor(state: EditorState, completion: CompletionState, hunks: DiffHunk[]) {
+  const line = cursorLineIndex(state, completion);
+  const index = hunks.findIndex((hunk) => {
+    const { lineFrom, lineTo } = hunkLines(completion, hunk);
+    return line < Math.max(lineTo, lineFrom + 1);
+  });
+  return index === -1 ? hunks.length - 1 : index;
+}
+
+// Once part of a proposal is accepted or rejected, the
+// alternatives to it no longer apply
+const NO_CANDIDATES = { candidates: undefined, candidate: undefined };
+
+/**
+ * Accept one hunk of the pending edit: the hunk at the cursor, or
+ * the one at `index`. Accepting the last remaining hunk closes the edit.
+ */
+export const acceptAiEditHunk = (view: EditorView, index?: number): boolean => {
+  const pending = pendingHunks(view.state);
+  if (!pending) return false;
+  const { completion, hunks } = pending;
+  const hunk = hunks[index ?? hunkAtCursor(view.state, completion, hunks)];
+  if (!hunk) return false;
+
+  // The document already has the new code, so accepting
+  // a hunk only means it's no longer part of the diff
+  const accepted = completion.newCode.slice(hunk.newFrom, hunk.newTo);
+  const oldCode =
+    completion.oldCode.slice(0, hunk.oldFrom) + accepted + completion.oldCode.slice(hunk.oldTo);
+  if (oldCode === completion.newCode) {
+    resolveEdits(view, [completion], true);
+    return true;
+  }
+  const baseCode = completion.baseCode ?? completion.oldCode;
+
+  if (completion.preview) {
+    // ...unless it's a preview, and the hunk still has to be written
     view.dispatch({
       changes: {
-        from: completionStateValue.from,
-        to: completionStateValue.to,
-        insert: completionStateValue.oldCode,
+        from: completion.from + hunk.oldFrom,
+        to: completion.from + hunk.oldTo,
+        insert: accepted,
       },
-      effects: [
-        showCompletion.of(null),
-        showInput.of({ show: false, lineFrom: 0, lineTo: 0 }),
-        setInputFocus.of(false),
-        setInputValue.of(""),
-        setLoading.of(false),
-      ],
+      effects: showCompletion.of({
+        ...completion,
+        to: completion.from + oldCode.length,
+        oldCode,
+        baseCode,
+        ...NO_CANDIDATES,
+      }),
+      ...PENDING_EDIT,
     });
     return true;
   }
-  return false;
+
+  view.dispatch({
+    effects: showCompletion.of({ ...completion, oldCode, baseCode, ...NO_CANDIDATES }),
+  });
+  return true;
+};
+
+/**
+ * Reject one hunk of the pending edit, restoring its old code: the hunk
+ * at the cursor, or the one at `index`. Rejecting the last remaining
+ * hunk closes the edit.
+ */
+export const rejectAiEditHunk = (view: EditorView, index?: number): boolean => {
+  const pending = pendingHunks(view.state);
+  if (!pending) return false;
+  const { completion, hunks } = pending;
+  const hunk = hunks[index ?? hunkAtCursor(view.state, completion, hunks)];
+  if (!hunk) return false;
+
+  const restored = completion.oldCode.slice(hunk.oldFrom, hunk.oldTo);
+  const newCode =
+    completion.newCode.slice(0, hunk.newFrom) + restored + completion.newCode.slice(hunk.newTo);
+  if (newCode === completion.oldCode) {
+    resolveEdits(view, [completion], false);
+    return true;
+  }
+
+  if (completion.preview) {
+    // The document still has the old code
+    view.dispatch({ effects: showCompletion.of({ ...completion, newCode, ...NO_CANDIDATES }) });
+    return true;
+  }
+
+  view.dispatch({
+    changes: {
+      from: completion.from + hunk.newFrom,
+      to: completion.from + hunk.newTo,
+      insert: restored,
+    },
+    effects: showCompletion.of({
+      ...completion,
+      to: completion.from + newCode.length,
+      newCode,
+      ...NO_CANDIDATES,
+    }),
+    ...PENDING_EDIT,
+  });
+  return true;
 };
+
+/** Move the cursor to the start of a hunk of the pending edit */
+function moveToHunk(
+  view: EditorView,
+  pick: (
+    hunks: DiffHunk[],
+    line: number,
+    start: (hunk: DiffHunk) => number,
+  ) => DiffHunk | undefined,
+) {
+  const pending = pendingHunks(view.state);
+  if (!pending?.hunks.length) return false;
+  const { completion, hunks } = pending;
+  const hunk = pick(
+    hunks,
+    cursorLineIndex(view.state, completion),
+    (hunk) => hunkLines(completion, hunk).lineFrom,
+  );
+  if (!hunk) return false;
+
+  const { doc } = view.state;
+  const { lineFrom } = hunkLines(completion, hunk);
+  const number = Math.min(doc.lineAt(completion.from).number + lineFrom, doc.lines);
+  const pos = Math.max(doc.line(number).from, completion.from);
+  view.dispatch({
+    selection: EditorSelection.cursor(pos),
+    effects: EditorView.scrollIntoView(pos, { y: "center" }),
+  });
+  return true;
+}
+
+/** Command to move to the next hunk of the pending edit, wrapping around */
+export const nextAiEditHunk: Command = (view: EditorView) =>
+  moveToHunk(view, (hunks, line, start) => hunks.find((hunk) => start(hunk) > line) ?? hunks[0]);
+
+/** Command to move to the previous hunk of the pending edit, wrapping around */
+export const previousAiEditHunk: Command = (view: EditorView) =>
+  moveToHunk(
+    view,
+    (hunks, line, start) => [...hunks].reverse().find((hunk) => start(hunk) < line) ?? hunks.at(-1),
+  );
+
+/** Show another of the alternative proposals, `offset` away from the current one */
+function cycleCandidate(view: EditorView, offset: number) {
+  const completion = view.state.field(completionState);
+  const { candidates, candidate = 0 } = completion ?? {};
+  if (!completion || !candidates || candidates.length < 2) return false;
+  if (completion.refining || completion.conflict) return false;
+
+  const index = (candidate + offset + candidates.length) % candidates.length;
+  const newCode = candidates[index] ?? "";
+  if (completion.preview) {
+    view.dispatch({ effects: showCompletion.of({ ...completion, newCode, candidate: index }) });
+    return true;
+  }
+  view.dispatch({
+    changes: { from: completion.from, to: completion.to, insert: newCode },
+    effects: showCompletion.of({
+      ...completion,
+      to: completion.from + newCode.length,
+      newCode,
+      candidate: index,
+    }),
+    ...PENDING_EDIT,
+  });
+  return true;
+}
+
+/** Command to show the next alternative proposal, wrapping around */
+export const nextAiEditCandidate: Command = (view: EditorView) => cycleCandidate(view, 1);
+
+/** Command to show the previous alternative proposal, wrapping around */
+export const previousAiEditCandidate: Command = (view: EditorView) => cycleCandidate(view, -1);
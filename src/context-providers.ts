@@ -0,0 +1,48 @@
+import type { EditorView } from "@codemirror/view";
+import { type ContextItem, type ContextProvider, contextProviders } from "./state.js";
+
+/** A mention being typed, from the `@` up to the cursor */
+export interface MentionQuery {
+  /** Position of the `@` */
+  from: number;
+  /** What was typed after it */
+  query: string;
+}
+
+/**
+ * Find the `@mention` being typed right before `cursor`, if any.
+ * Mentions start a word, so email addresses don't count.
+ */
+export function mentionQuery(text: string, cursor: number): MentionQuery | null {
+  const match = /(^|\s)@([\w-]*)$/.exec(text.slice(0, cursor));
+  if (!match) return null;
+  return { from: match.index + (match[1] ?? "").length, query: match[2] ?? "" };
+}
+
+/** Ids of the providers mentioned as `@id` in a prompt, in order */
+export function parseMentions(prompt: string, providers: readonly ContextProvider[]): string[] {
+  const ids = [...prompt.matchAll(/(?:^|\s)@([\w-]+)/g)].map((match) => match[1] ?? "");
+  return [...new Set(ids)].filter((id) => providers.some((provider) => provider.id === id));
+}
+
+/**
+ * Fetch the material of the mentioned providers, in parallel.
+ * Ids without a registered provider are skipped.
+ */
+export async function resolveContext(
+  view: EditorView,
+  ids: readonly string[],
+  signal: AbortSignal | undefined,
+): Promise<ContextItem[]> {
+  const providers = view.state.facet(contextProviders);
+  const mentioned = [...new Set(ids)].flatMap((id) => {
+    const provider = providers.find((provider) => provider.id === id);
+    return provider ? [provider] : [];
+  });
+  return Promise.all(
+    mentioned.map(async (provider) => ({
+      id: provider.id,
+      content: await provider.resolve({ editorView: view, signal }),
+    })),
+  );
+}
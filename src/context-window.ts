@@ -0,0 +1,188 @@
+import { syntaxTree } from "@codemirror/language";
+import type { EditorState } from "@codemirror/state";
+import type { AiOptions } from "./state.js";
+
+/** A range of the document */
+interface Region {
+  from: number;
+  to: number;
+}
+
+/** How much code around an edit may be sent */
+export interface ContextBudget {
+  /** Maximum size of `codeBefore` and `codeAfter` together */
+  max: number;
+  /** Measures text, in characters by default */
+  count?: (text: string) => number;
+}
+
+/** The budget set in the options, if any */
+export function contextBudget(options: AiOptions): ContextBudget | undefined {
+  return options.contextBudget === undefined
+    ? undefined
+    : { max: options.contextBudget, count: options.countTokens };
+}
+
+// Top-level statements kept at the start of `codeBefore`, if they fit:
+// imports, comments, and declarations of types, constants and variables.
+// Functions and classes end the header, as their bodies are code.
+const HEADER_NODE =
+  /Import|Include|Package|Using|Require|Comment|^Use|Assign|Variable|Const|Static|Type|Interface|Enum|Struct|^Declaration$/;
+
+/**
+ * Trim the code before and after an edit to a budget, keeping what's
+ * closest to the edit. The code is cut between syntax nodes, so that
+ * whole functions and blocks are kept, and the imports, comments and
+ * declarations of types, constants and variables at the top of the
+ * file are kept as well when `before` starts there.
+ * Without a syntax tree, it's cut between lines.
+ */
+export function windowContext(
+  state: EditorState,
+  before: Region,
+  after: Region,
+  { max, count = (text) => text.length }: ContextBudget,
+): { codeBefore: string; codeAfter: string } {
+  const codeBefore = state.sliceDoc(before.from, before.to);
+  const codeAfter = state.sliceDoc(after.from, after.to);
+  if (count(codeBefore) + count(codeAfter) <= max) return { codeBefore, codeAfter };
+
+  // Imports are worth more than code far from the edit,
+  // but not more than half the budget
+  let header = "";
+  const headerEnd =
+    before.from === 0
+      ? headerLength(state, before.to, (end) => count(state.sliceDoc(0, end)) <= max / 2)
+      : 0;
+  if (headerEnd > 0) header = `${state.sliceDoc(0, headerEnd)}\n${elisionMarker(state)}`;
+  let budget = max - count(header);
+
+  // Each side gets half, and the code before gets what's left after
+  let afterTo = fitAfter(state, after, budget / 2, count);
+  const beforeFrom = fitBefore(
+    state,
+    before,
+    budget - count(state.sliceDoc(after.from, afterTo)),
+    count,
+  );
+  budget -= count(state.sliceDoc(beforeFrom, before.to));
+  afterTo = fitAfter(state, after, budget, count);
+
+  return {
+    codeBefore:
+      header && beforeFrom > headerEnd
+        ? header + state.sliceDoc(beforeFrom, before.to)
+        : state.sliceDoc(beforeFrom, before.to),
+    codeAfter: state.sliceDoc(after.from, afterTo),
+  };
+}
+
+/** Where to start the code before, to keep as much as fits */
+function fitBefore(
+  state: EditorState,
+  region: Region,
+  budget: number,
+  count: (text: string) => number,
+) {
+  const fits = (cut: number) => count(state.sliceDoc(cut, region.to)) <= budget;
+  const cuts = [...blockStarts(state, region), region.from].sort((a, b) => b - a);
+  let best = region.to;
+  for (const cut of cuts) {
+    if (!fits(cut)) break;
+    best = cut;
+  }
+  if (best !== region.to) return best;
+
+  // Not even the closest block fits, so keep whole lines
+  for (let line = state.doc.lineAt(region.to); ; line = state.doc.line(line.number - 1)) {
+    const cut = Math.max(line.from, region.from);
+    if (cut < region.to && !fits(cut)) return best;
+    best = cut;
+    if (cut === region.from) return best;
+  }
+}
+
+/** Where to end the code after, to keep as much as fits */
+function fitAfter(
+  state: EditorState,
+  region: Region,
+  budget: number,
+  count: (text: string) => number,
+) {
+  const fits = (cut: number) => count(state.sliceDoc(region.from, cut)) <= budget;
+  const cuts = [...blockEnds(state, region), region.to].sort((a, b) => a - b);
+  let best = region.from;
+  for (const cut of cuts) {
+    if (!fits(cut)) break;
+    best = cut;
+  }
+  if (best !== region.from) return best;
+
+  for (let line = state.doc.lineAt(region.from); ; line = state.doc.line(line.number + 1)) {
+    const cut = Math.min(line.to, region.to);
+    if (cut > region.from && !fits(cut)) return best;
+    best = cut;
+    if (cut === region.to) return best;
+  }
+}
+
+/**
+ * Starts of the lines where syntax nodes before `region.to` start,
+ * for nodes that are siblings of one of the nodes around `region.to`
+ */
+function blockStarts(state: EditorState, region: Region) {
+  const starts: number[] = [];
+  const inner = syntaxTree(state).resolveInner(region.to, 0);
+  for (let node: typeof inner | null = inner; node; node = node.parent) {
+    for (let child = node.firstChild; child && child.to <= region.to; child = child.nextSibling) {
+      const line = state.doc.lineAt(child.from);
+      if (child.from >= region.from && !state.sliceDoc(line.from, child.from).trim()) {
+        starts.push(Math.max(line.from, region.from));
+      }
+    }
+  }
+  return starts;
+}
+
+/**
+ * Ends of the lines where syntax nodes after `region.from` end,
+ * for nodes that are siblings of one of the nodes around `region.from`
+ */
+function blockEnds(state: EditorState, region: Region) {
+  const ends: number[] = [];
+  const inner = syntaxTree(state).resolveInner(region.from, 0);
+  for (let node: typeof inner | null = inner; node; node = node.parent) {
+    for (
+      let child = node.lastChild;
+      child && child.from >= region.from;
+      child = child.prevSibling
+    ) {
+      const line = state.doc.lineAt(child.to);
+      if (child.to <= region.to && !state.sliceDoc(child.to, line.to).trim()) {
+        ends.push(Math.min(line.to, region.to));
+      }
+    }
+  }
+  return ends;
+}
+
+/**
+ * Length of the header statements at the top of the document that
+ * `fits`, up to `limit`, ending at the end of a line
+ */
+function headerLength(state: EditorState, limit: number, fits: (end: number) => boolean) {
+  let end = 0;
+  for (let node = syntaxTree(state).topNode.firstChild; node; node = node.nextSibling) {
+    if (!HEADER_NODE.test(node.name) || node.to > limit) break;
+    const next = Math.min(state.doc.lineAt(node.to).to, limit);
+    if (!fits(next)) break;
+    end = next;
+  }
+  return end;
+}
+
+/** A line that marks where code was left out, as a comment if possible */
+function elisionMarker(state: EditorState) {
+  const [comments] = state.languageDataAt<{ line?: string }>("commentTokens", 0);
+  return comments?.line ? `${comments.line} ...\n` : "\n";
+}
@@ -0,0 +1,249 @@
+import type { CompletionState } from "./state.js";
+
+/** A range of characters in one side of a diff */
+export interface DiffSpan {
+  from: number;
+  to: number;
+}
+
+/**
+ * A contiguous run of changed lines between the old and the new code.
+ *
+ * Replacing `newFrom..newTo` in the new text with `oldFrom..oldTo` from
+ * the old text reverts the hunk, and vice versa.
+ */
+export interface DiffHunk {
+  /** Character range in the old text */
+  oldFrom: number;
+  oldTo: number;
+  /** Character range in the new text */
+  newFrom: number;
+  newTo: number;
+  /** 0-based line range [from, to) in the old text */
+  oldLineFrom: number;
+  oldLineTo: number;
+  /** 0-based line range [from, to) in the new text */
+  newLineFrom: number;
+  newLineTo: number;
+  /** Changed words in lines that were modified rather than replaced (old text offsets) */
+  oldWords: DiffSpan[];
+  /** Changed words in lines that were modified rather than replaced (new text offsets) */
+  newWords: DiffSpan[];
+}
+
+/** A stretch of two sequences that differs, as [from, to) indices into each */
+interface Region {
+  aFrom: number;
+  aTo: number;
+  bFrom: number;
+  bTo: number;
+}
+
+// Past this many cells, the LCS table is too costly to build and
+// the whole middle section is reported as one change.
+const MAX_TABLE_SIZE = 4_000_000;
+
+// Lines are only diffed word-by-word when they share at least
+// this fraction of their characters.
+const MIN_WORD_SIMILARITY = 0.4;
+
+/**
+ * Find the regions where two sequences differ, using the longest
+ * common subsequence. Common prefixes and suffixes are trimmed
+ * first, so small edits to large texts stay cheap.
+ */
+function changedRegions<T>(a: readonly T[], b: readonly T[]): Region[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 && m === 0) return [];
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_TABLE_SIZE) {
+    return [{ aFrom: start, aTo: endA, bFrom: start, bTo: endB }];
+  }
+
+  // lcs[i * (m + 1) + j] is the LCS length of a[start + i..endA] and b[start + j..endB]
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[start + i] === b[start + j]
+          ? (lcs[(i + 1) * width + j + 1] ?? 0) + 1
+          : Math.max(lcs[(i + 1) * width + j] ?? 0, lcs[i * width + j + 1] ?? 0);
+    }
+  }
+
+  const regions: Region[] = [];
+  let current: Region | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = { aFrom: start + i, aTo: start + i, bFrom: start + j, bTo: start + j };
+      regions.push(current);
+    }
+    if (j < m && (i === n || (lcs[i * width + j + 1] ?? 0) >= (lcs[(i + 1) * width + j] ?? 0))) {
+      j++;
+      current.bTo = start + j;
+    } else {
+      i++;
+      current.aTo = start + i;
+    }
+  }
+  return regions;
+}
+
+/** Start offset of each line in `lines`, plus one past the end */
+function lineOffsets(lines: readonly string[]): number[] {
+  const offsets = [0];
+  let pos = 0;
+  for (const line of lines) {
+    pos += line.length + 1;
+    offsets.push(pos);
+  }
+  return offsets;
+}
+
+/**
+ * Character range of lines [from, to). When the other side of the hunk
+ * is empty, a line break is included, so that swapping the two ranges
+ * removes or restores whole lines.
+ */
+function hunkRange(
+  offsets: readonly number[],
+  from: number,
+  to: number,
+  lineCount: number,
+  otherSideEmpty: boolean,
+): DiffSpan {
+  const at = (line: number) => offsets[line] ?? 0;
+  if (from < to && !otherSideEmpty) return { from: at(from), to: at(to) - 1 };
+  // Take the line break after the lines, or the one before
+  // them if they are at the end of the text
+  if (to < lineCount) return { from: at(from), to: at(to) };
+  return { from: at(from) - 1, to: at(to) - 1 };
+}
+
+/** Split a line into words, runs of whitespace and single punctuation characters */
+function tokenize(text: string): string[] {
+  return text.match(/\w+|\s+|[^\w\s]/g) ?? [];
+}
+
+/**
+ * Word-level changes between two versions of a line, as offsets into each.
+ * Returns null when the lines have too little in common to be worth it.
+ */
+function diffWords(oldLine: string, newLine: string) {
+  const oldTokens = tokenize(oldLine);
+  const newTokens = tokenize(newLine);
+  const regions = changedRegions(oldTokens, newTokens);
+
+  const oldStarts = [0];
+  for (const token of oldTokens) oldStarts.push((oldStarts.at(-1) ?? 0) + token.length);
+  const newStarts = [0];
+  for (const token of newTokens) newStarts.push((newStarts.at(-1) ?? 0) + token.length);
+
+  let changed = 0;
+  const oldWords: DiffSpan[] = [];
+  const newWords: DiffSpan[] = [];
+  for (const region of regions) {
+    const oldSpan = { from: oldStarts[region.aFrom] ?? 0, to: oldStarts[region.aTo] ?? 0 };
+    const newSpan = { from: newStarts[region.bFrom] ?? 0, to: newStarts[region.bTo] ?? 0 };
+    changed += oldSpan.to - oldSpan.from + newSpan.to - newSpan.from;
+    if (oldSpan.to > oldSpan.from) oldWords.push(oldSpan);
+    if (newSpan.to > newSpan.from) newWords.push(newSpan);
+  }
+
+  const total = oldLine.length + newLine.length;
+  if (total > 0 && (total - changed) / total < MIN_WORD_SIMILARITY) return null;
+  return { oldWords, newWords };
+}
+
+/**
+ * Compute the line hunks between two texts. Lines within a hunk are
+ * paired up in order, and pairs that are similar enough also get
+ * their changed words marked.
+ */
+export function diffHunks(oldText: string, newText: string): DiffHunk[] {
+  const oldLines = oldText.split("\n");
+  const newLines = newText.split("\n");
+  const oldOffsets = lineOffsets(oldLines);
+  const newOffsets = lineOffsets(newLines);
+
+  return changedRegions(oldLines, newLines).map((region) => {
+    const oldRange = hunkRange(
+      oldOffsets,
+      region.aFrom,
+      region.aTo,
+      oldLines.length,
+      region.bFrom === region.bTo,
+    );
+    const newRange = hunkRange(
+      newOffsets,
+      region.bFrom,
+      region.bTo,
+      newLines.length,
+      region.aFrom === region.aTo,
+    );
+
+    const oldWords: DiffSpan[] = [];
+    const newWords: DiffSpan[] = [];
+    const pairs = Math.min(region.aTo - region.aFrom, region.bTo - region.bFrom);
+    for (let k = 0; k < pairs; k++) {
+      const oldLine = region.aFrom + k;
+      const newLine = region.bFrom + k;
+      const words = diffWords(oldLines[oldLine] ?? "", newLines[newLine] ?? "");
+      if (!words) continue;
+      const oldStart = oldOffsets[oldLine] ?? 0;
+      const newStart = newOffsets[newLine] ?? 0;
+      for (const span of words.oldWords) {
+        oldWords.push({ from: oldStart + span.from, to: oldStart + span.to });
+      }
+      for (const span of words.newWords) {
+        newWords.push({ from: newStart + span.from, to: newStart + span.to });
+      }
+    }
+
+    return {
+      oldFrom: oldRange.from,
+      oldTo: oldRange.to,
+      newFrom: newRange.from,
+      newTo: newRange.to,
+      oldLineFrom: region.aFrom,
+      oldLineTo: region.aTo,
+      newLineFrom: region.bFrom,
+      newLineTo: region.bTo,
+      oldWords,
+      newWords,
+    };
+  });
+}
+
+const hunkCache = new WeakMap<CompletionState, DiffHunk[]>();
+
+/**
+ * The hunks of a pending completion. Cached per completion state,
+ * since the decorations ask for them on every update.
+ */
+export function completionHunks(completion: CompletionState): DiffHunk[] {
+  let hunks = hunkCache.get(completion);
+  if (!hunks) {
+    hunks = diffHunks(completion.oldCode, completion.newCode);
+    hunkCache.set(completion, hunks);
+  }
+  return hunks;
+}
@@ -0,0 +1,32 @@
+import { invertedEffects, isolateHistory } from "@codemirror/commands";
+import { Transaction, type TransactionSpec } from "@codemirror/state";
+import { completionsState, restoreCompletions } from "./state.js";
+
+/**
+ * Changes made while an edit is pending (the proposal, streamed chunks,
+ * refinements, other candidates, hunks) are kept out of the undo
+ * history. The edit only gets into it once it's accepted or rejected.
+ */
+export const PENDING_EDIT: TransactionSpec = {
+  userEvent: "ai.propose",
+  annotations: Transaction.addToHistory.of(false),
+};
+
+/**
+ * Accepting or rejecting edits is a history event of its own, which
+ * typing right after it doesn't get joined into
+ */
+export function resolvedEdit(userEvent: "ai.accept" | "ai.reject"): TransactionSpec {
+  return { userEvent, annotations: isolateHistory.of("full") };
+}
+
+/**
+ * Undoing an accepted or rejected edit brings back the pending edits
+ * as they were before, and redoing it closes them again
+ */
+export const editHistory = invertedEffects.of((tr) => {
+  const restoring = tr.isUserEvent("ai") || tr.effects.some((e) => e.is(restoreCompletions));
+  const before = tr.startState.field(completionsState, false);
+  if (!restoring || !before || before === tr.state.field(completionsState, false)) return [];
+  return [restoreCompletions.of(before)];
+});
@@ -0,0 +1,280 @@
+import type { ChangeSpec, EditorState, StateEffect } from "@codemirror/state";
+import { type EditorView, type PluginValue, ViewPlugin, type ViewUpdate } from "@codemirror/view";
+import { PENDING_EDIT } from "./edit-history.js";
+import { AiError } from "./errors.js";
+import { defaultPostProcessors, postProcess } from "./post-process.js";
+import {
+  type CompletionResult,
+  type CompletionState,
+  completionState,
+  completionsState,
+  inputState,
+  optionsFacet,
+  showCompletion,
+} from "./state.js";
+import { iterateStream } from "./utils.js";
+
+/**
+ * Owns the in-flight edit request for a view.
+ *
+ * The widgets can't own it: CodeMirror destroys and re-creates
+ * widget DOM when the text under it is replaced, which happens on
+ * every streamed chunk. The request is aborted once nothing is
+ * waiting on it anymore (the input is closed, or the code it applies
+ * to was changed, and no completion is streaming in or being refined).
+ */
+export const editRequestPlugin = ViewPlugin.fromClass(
+  class EditRequestPlugin implements PluginValue {
+    controller: AbortController | null = null;
+
+    start(): AbortSignal {
+      this.abort();
+      this.controller = new AbortController();
+      return this.controller.signal;
+    }
+
+    abort() {
+      this.controller?.abort();
+      this.controller = null;
+    }
+
+    update(update: ViewUpdate) {
+      if (!this.controller) return;
+      const inputStateValue = update.state.field(inputState);
+      const edits = update.state.field(completionsState);
+      const inputWaiting = inputStateValue.show && !inputStateValue.conflict;
+      if (!inputWaiting && !edits.some((edit) => edit.streaming || edit.refining)) {
+        this.abort();
+      }
+    }
+
+    destroy() {
+      this.abort();
+    }
+  },
+);
+
+/** Where and how to show the result of an edit request */
+export interface EditRequestTarget {
+  /** Range of the document the result replaces */
+  from: number;
+  to: number;
+  /** The pending edit to show, apart from its range and new code */
+  completion: Omit<CompletionState, "from" | "to" | "newCode">;
+  /** Whether the result is still wanted, as the user may have moved on */
+  isWanted: (state: EditorState) => boolean;
+  /** Effects to dispatch along with the first result */
+  effects: StateEffect<unknown>[];
+}
+
+/**
+ * Show the result of an edit request as the pending edit.
+ * Streamed results are written into the document as they arrive:
+ * the first chunk replaces the target range, and later chunks are
+ * appended to the end of the completion.
+ */
+export async function showCompletionResult(
+  view: EditorView,
+  result: CompletionResult,
+  target: EditRequestTarget,
+  signal: AbortSignal | undefined,
+) {
+  if (!target.isWanted(view.state)) return;
+
+  if (typeof result === "string" || Array.isArray(result)) {
+    // Several candidates are shown one at a time, starting with the first
+    const candidates = [
+      ...new Set(
+        (typeof result === "string" ? [result] : result).map((candidate) =>
+          processCode(view.state, target.from, target.to, target.completion.oldCode, candidate),
+        ),
+      ),
+    ].filter(Boolean);
+    const [newCode] = candidates;
+    // Validate result
+    if (!newCode) {
+      throw new AiError("Invalid completion result", "invalid-output");
+    }
+
+    const proposal = propose(view.state, target.from, target.to, newCode);
+    view.dispatch({
+      changes: proposal.changes,
+      effects: [
+        ...target.effects,
+        showCompletion.of({
+          ...target.completion,
+          ...proposal.range,
+          newCode,
+          ...(candidates.length > 1 && { candidates, candidate: 0 }),
+        }),
+      ],
+      ...PENDING_EDIT,
+    });
+    return;
+  }
+
+  let newCode = "";
+  try {
+    for await (const chunk of iterateStream(result)) {
+      if (signal?.aborted) break;
+      if (!chunk) continue;
+
+      if (!newCode) {
+        if (!target.isWanted(view.state)) break;
+        newCode = chunk;
+        const proposal = propose(view.state, target.from, target.to, chunk);
+        view.dispatch({
+          changes: proposal.changes,
+          effects: [
+            ...target.effects,
+            showCompletion.of({
+              ...target.completion,
+              ...proposal.range,
+              newCode,
+              streaming: true,
+            }),
+          ],
+          ...PENDING_EDIT,
+        });
+        continue;
+      }
+
+      // Stopped, accepted or rejected while streaming
+      const current = view.state.field(completionState);
+      if (!current?.streaming) break;
+      newCode += chunk;
+      if (current.preview) {
+        view.dispatch({ effects: showCompletion.of({ ...current, newCode }) });
+        continue;
+      }
+      view.dispatch({
+        changes: { from: current.to, insert: chunk },
+        effects: showCompletion.of({
+          ...current,
+          to: current.to + chunk.length,
+          newCode,
+        }),
+        ...PENDING_EDIT,
+      });
+    }
+  } finally {
+    finishStreaming(view);
+  }
+
+  if (!newCode && !signal?.aborted && target.isWanted(view.state)) {
+    throw new AiError("Invalid completion result", "invalid-output");
+  }
+}
+
+/**
+ * Mark a streaming completion as complete, if there is one, and
+ * clean up the code that came in
+ */
+export function finishStreaming(view: EditorView) {
+  const current = view.state.field(completionState);
+  if (!current?.streaming) return;
+  const { from, to, oldCode } = current;
+  const newCode = processCode(view.state, from, to, oldCode, current.newCode) || current.newCode;
+  if (current.preview || newCode === current.newCode) {
+    view.dispatch({ effects: showCompletion.of({ ...current, newCode, streaming: false }) });
+    return;
+  }
+  view.dispatch({
+    changes: { from, to, insert: newCode },
+    effects: showCompletion.of({
+      ...current,
+      to: from + newCode.length,
+      newCode,
+      streaming: false,
+    }),
+    ...PENDING_EDIT,
+  });
+}
+
+/** Clean up new code for `from`..`to` with the configured post-processors */
+function processCode(state: EditorState, from: number, to: number, oldCode: string, code: string) {
+  const processors = state.facet(optionsFacet).postProcessors ?? defaultPostProcessors;
+  return postProcess(code, processors, { state, from, to, oldCode });
+}
+
+/** One range a prompt was applied to, and what came back for it */
+export interface EditRequestResult {
+  from: number;
+  to: number;
+  /** The pending edit to show, apart from its range and new code */
+  completion: Omit<CompletionState, "from" | "to" | "newCode">;
+  /** The proposals for the range; it's left alone if there are none */
+  candidates: string[];
+}
+
+let nextEditId = 0;
+
+/**
+ * Show the results of a prompt applied to several ranges at once,
+ * as separate pending edits, in a single transaction.
+ */
+export function showCompletionResults(
+  view: EditorView,
+  results: EditRequestResult[],
+  effects: StateEffect<unknown>[],
+) {
+  const shown = results
+    .map((result) => ({
+      ...result,
+      candidates: [
+        ...new Set(
+          result.candidates.map((candidate) =>
+            processCode(view.state, result.from, result.to, result.completion.oldCode, candidate),
+          ),
+        ),
+      ].filter(Boolean),
+    }))
+    .filter((result) => result.candidates.length);
+  if (!shown.length) {
+    throw new AiError("Invalid completion result", "invalid-output");
+  }
+
+  const proposals = shown.map(({ from, to, candidates }) =>
+    propose(view.state, from, to, candidates[0] ?? ""),
+  );
+  const changes = view.state.changes(proposals.map((proposal) => proposal.changes));
+  view.dispatch({
+    changes,
+    effects: [
+      ...effects,
+      ...shown.map(({ completion, candidates }, i) => {
+        const newCode = candidates[0] ?? "";
+        const { range } = proposals[i] as Proposal;
+        const from = changes.mapPos(range.from, -1);
+        return showCompletion.of({
+          ...completion,
+          ...range,
+          from,
+          to: from + (range.to - range.from),
+          newCode,
+          id: nextEditId++,
+          ...(candidates.length > 1 && { candidates, candidate: 0 }),
+        });
+      }),
+    ],
+    ...PENDING_EDIT,
+  });
+}
+
+/** How new code for a range is shown */
+interface Proposal {
+  changes: ChangeSpec;
+  /** The range the pending edit covers, and whether it's a preview */
+  range: { from: number; to: number; preview?: boolean };
+}
+
+/**
+ * Replace `from`..`to` with the new code, or leave the document
+ * alone in preview mode
+ */
+function propose(state: EditorState, from: number, to: number, newCode: string): Proposal {
+  if (state.facet(optionsFacet).preview) {
+    return { changes: [], range: { from, to, preview: true } };
+  }
+  return { changes: { from, to, insert: newCode }, range: { from, to: from + newCode.length } };
+}
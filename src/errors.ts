@@ -0,0 +1,54 @@
+/**
+ * What went wrong with an AI request:
+ * - `"network"`: the backend couldn't be reached
+ * - `"timeout"`: it took too long to answer
+ * - `"rate-limit"`: it refused the request for now (HTTP 429)
+ * - `"invalid-output"`: its answer couldn't be used
+ * - `"unknown"`: anything else
+ */
+export type AiErrorCategory = "network" | "timeout" | "rate-limit" | "invalid-output" | "unknown";
+
+/**
+ * An error from an AI request, as passed to `onError`. The original
+ * error, if any, is its `cause`.
+ */
+export class AiError extends Error {
+  override name = "AiError";
+
+  constructor(
+    message: string,
+    readonly category: AiErrorCategory,
+    options?: { cause?: unknown },
+  ) {
+    super(message, options);
+  }
+
+  /** Wrap an error thrown by a request, guessing its category */
+  static from(error: unknown): AiError {
+    if (error instanceof AiError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    return new AiError(message, categorize(error, message), { cause: error });
+  }
+}
+
+/**
+ * Guess the category of an error from its name, an HTTP status on
+ * it or its response, or failing that, its message
+ */
+function categorize(error: unknown, message: string): AiErrorCategory {
+  const { name, status, statusCode, response } = (error ?? {}) as {
+    name?: string;
+    status?: number;
+    statusCode?: number;
+    response?: { status?: number };
+  };
+  const httpStatus = status ?? statusCode ?? response?.status;
+  if (name === "TimeoutError" || httpStatus === 408 || httpStatus === 504) return "timeout";
+  if (httpStatus === 429) return "rate-limit";
+  if (/rate.?limit|too many requests/i.test(message)) return "rate-limit";
+  if (/timed? ?out|ETIMEDOUT/i.test(message)) return "timeout";
+  if (/failed to fetch|network|ECONNREFUSED|ECONNRESET|ENOTFOUND/i.test(message)) {
+    return "network";
+  }
+  return "unknown";
+}
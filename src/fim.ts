@@ -0,0 +1,73 @@
+/**
+ * The sentinel tokens a code model was trained with for
+ * fill-in-the-middle prompts
+ */
+export interface FimTokens {
+  /** Goes before the code before the cursor */
+  prefix: string;
+  /** Goes before the code after the cursor */
+  suffix: string;
+  /** Ends the prompt, asking for the code in between */
+  middle: string;
+  /** Tokens that end the answer. Anything from the first one on is dropped. */
+  stop?: string[];
+}
+
+/** The sentinel tokens of common model families */
+export const fimTokenPresets = {
+  /** StarCoder, StarCoder2, SantaCoder and Stable Code */
+  starcoder: {
+    prefix: "<fim_prefix>",
+    suffix: "<fim_suffix>",
+    middle: "<fim_middle>",
+    stop: ["<|endoftext|>", "<file_sep>"],
+  },
+  /** Qwen2.5-Coder */
+  qwen: {
+    prefix: "<|fim_prefix|>",
+    suffix: "<|fim_suffix|>",
+    middle: "<|fim_middle|>",
+    stop: ["<|endoftext|>", "<|fim_pad|>", "<|file_sep|>", "<|repo_name|>"],
+  },
+  /** CodeGemma */
+  codegemma: {
+    prefix: "<|fim_prefix|>",
+    suffix: "<|fim_suffix|>",
+    middle: "<|fim_middle|>",
+    stop: ["<|file_separator|>", "<eos>"],
+  },
+  /** Code Llama */
+  codellama: {
+    prefix: "<PRE> ",
+    suffix: " <SUF>",
+    middle: " <MID>",
+    stop: ["<EOT>"],
+  },
+  /** DeepSeek Coder */
+  deepseek: {
+    prefix: "<｜fim▁begin｜>",
+    suffix: "<｜fim▁hole｜>",
+    middle: "<｜fim▁end｜>",
+    stop: ["<｜end▁of▁sentence｜>", "<|EOT|>"],
+  },
+} satisfies Record<string, FimTokens>;
+
+export type FimModelFamily = keyof typeof fimTokenPresets;
+
+/** The tokens for a model family, or the given tokens */
+export function resolveFimTokens(tokens: FimModelFamily | FimTokens = "starcoder"): FimTokens {
+  return typeof tokens === "string" ? fimTokenPresets[tokens] : tokens;
+}
+
+/** A prompt asking for the code between `prefix` and `suffix` */
+export function fimPrompt(prefix: string, suffix: string, tokens: FimTokens): string {
+  return `${tokens.prefix}${prefix}${tokens.suffix}${suffix}${tokens.middle}`;
+}
+
+/** Cut an answer off at its first stop token */
+export function trimAtStopTokens(text: string, tokens: FimTokens): string {
+  const end = Math.min(
+    ...(tokens.stop ?? []).map((token) => text.indexOf(token)).filter((index) => index >= 0),
+  );
+  return Number.isFinite(end) ? text.slice(0, end) : text;
+}
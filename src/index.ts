@@ -4,5 +4,36 @@ export * from "./state";
 export { createInitialTheme, applyTheme, darkTheme, lightTheme } from "./theme/index";
 export * from "./trigger";
 export * from "./commands";
+export { localStoragePromptHistory, memoryPromptHistory } from "./prompt-history.js";
+export { defaultSlashCommands } from "./slash-commands.js";
+export { AiError, type AiErrorCategory } from "./errors.js";
+export { syntaxIssues } from "./syntax-check.js";
+export type { RequestPolicy } from "./request-runner.js";
+export {
+  defaultPostProcessors,
+  normalizeTrailingNewline,
+  reindent,
+  stripCodeFences,
+  trimProse,
+  type PostProcessContext,
+  type PostProcessor,
+} from "./post-process.js";
+export {
+  anthropicProvider,
+  editMessages,
+  ollamaProvider,
+  openAiProvider,
+  promptMessages,
+  type AiProvider,
+  type ProviderConfig,
+  type ProviderRequestOptions,
+} from "./providers.js";
+export {
+  defaultAutocompletePrompt,
+  renderAutocompletePrompt,
+  type AutocompletePromptContext,
+  type AutocompletePromptTemplate,
+} from "./autocomplete-prompt.js";
+export { fimTokenPresets, type FimModelFamily, type FimTokens } from "./fim.js";
 export { aiAutocomplete } from "./autocomplete";
 export { aiExtension } from "./inline-edit";
@@ -11,13 +11,15 @@ import {
   type Command,
   Decoration,
   type DecorationSet,
-  type EditorView,
+  EditorView,
   ViewPlugin,
   type ViewUpdate,
   WidgetType,
   keymap,
 } from "@codemirror/view";
-import { debouncePromise } from "./utils.js";
+import { type PostProcessor, postProcess } from "./post-process.js";
+import { type RequestPolicy, runRequest } from "./request-runner.js";
+import { debouncePromise, suggestionPart } from "./utils.js";
 
 // Credit to https://github.com/saminzadeh/codemirror-extension-inline-suggestion
 // This is modified for some additional features:
@@ -26,10 +28,19 @@ import { debouncePromise } from "./utils.js";
 // - Cache suggestions to avoid unnecessary re-fetches
 // - Callbacks
 
+interface InlineSuggestion {
+  /** The suggestion shown */
+  suggestion: null | string;
+  /** All the candidates, when the fetch function returned several */
+  candidates?: string[];
+  /** Index of the candidate in `candidates` that's shown */
+  candidate?: number;
+}
+
 /**
  * State field tracking the current inline suggestion
  */
-const InlineSuggestionState = StateField.define<{ suggestion: null | string }>({
+const InlineSuggestionState = StateField.define<InlineSuggestion>({
   create() {
     return { suggestion: null };
   },
@@ -37,32 +48,43 @@ const InlineSuggestionState = StateField.define<{ suggestion: null | string }>({
     const inlineSuggestion = tr.effects.find((e) => e.is(InlineSuggestionEffect));
     if (!tr.docChanged && !inlineSuggestion && !tr.selection) return value;
 
-    if (inlineSuggestion && tr.state.doc === inlineSuggestion.value.doc) {
-      return { suggestion: inlineSuggestion.value.text };
+    if (inlineSuggestion && tr.startState.doc === inlineSuggestion.value.doc) {
+      const { doc, ...suggestion } = inlineSuggestion.value;
+      return suggestion;
     }
     return { suggestion: null };
   },
 });
 
 /**
- * Effect to update the inline suggestion
+ * Effect to update the inline suggestion. It's dropped unless `doc`
+ * is the document the transaction starts from.
  */
-const InlineSuggestionEffect = StateEffect.define<{
-  text: string | null;
-  doc: Text;
-}>();
+const InlineSuggestionEffect = StateEffect.define<InlineSuggestion & { doc: Text }>();
 
 /**
- * Creates a decoration for the inline suggestion at the cursor position
+ * Creates a decoration for the inline suggestion at the cursor position,
+ * followed by a count when there are several candidates
  */
-function inlineSuggestionDecoration(view: EditorView, prefix: string) {
+function inlineSuggestionDecoration(
+  view: EditorView,
+  suggestion: string,
+  { candidates, candidate = 0 }: InlineSuggestion,
+) {
   const pos = view.state.selection.main.head;
   const widgets = [];
   const w = Decoration.widget({
-    widget: new InlineSuggestionWidget(prefix),
+    widget: new InlineSuggestionWidget(suggestion),
     side: 1,
   });
   widgets.push(w.range(pos));
+  if (candidates && candidates.length > 1) {
+    const count = Decoration.widget({
+      widget: new CandidateCountWidget(candidate, candidates.length),
+      side: 2,
+    });
+    widgets.push(count.range(pos));
+  }
   return Decoration.set(widgets);
 }
 
@@ -89,18 +111,54 @@ class InlineSuggestionWidget extends WidgetType {
   }
 }
 
-type InlineFetchFn = (state: EditorState, signal: AbortSignal) => Promise<string>;
+/**
+ * Widget that shows which of several candidates is shown, like "1/3"
+ */
+class CandidateCountWidget extends WidgetType {
+  constructor(
+    readonly index: number,
+    readonly count: number,
+  ) {
+    super();
+  }
+  eq(other: CandidateCountWidget) {
+    return other.index === this.index && other.count === this.count;
+  }
+  toDOM() {
+    const span = document.createElement("span");
+    span.className = "cm-inline-suggestion-count";
+    span.textContent = `${this.index + 1}/${this.count}`;
+    span.setAttribute("aria-label", `Suggestion ${this.index + 1} of ${this.count}`);
+    return span;
+  }
+}
+
+const candidateCountStyle = EditorView.baseTheme({
+  ".cm-inline-suggestion-count": {
+    opacity: "0.4",
+    marginLeft: "0.5em",
+    fontSize: "0.85em",
+  },
+});
+
+type InlineFetchFn = (state: EditorState, signal: AbortSignal) => Promise<string[]>;
 
 // Add these near the top with other types
 type SuggestionEvents = {
-  onSuggestionAccepted?: (view: EditorView, suggestion: string) => void;
+  /** `accepted` is the part of the suggestion accepted, or all of it */
+  onSuggestionAccepted?: (view: EditorView, suggestion: string, accepted: string) => void;
   onSuggestionRejected?: (view: EditorView, suggestion: string) => void;
   beforeSuggestionFetch?: (view: EditorView) => boolean;
+  /** Asked for each candidate; those it returns false for aren't shown */
   shouldShowSuggestion?: (view: EditorView, suggestion: string) => boolean;
 };
 
 type InlineSuggestionOptions = {
-  fetchFn: (state: EditorState, signal: AbortSignal) => Promise<string>;
+  /**
+   * Fetches the suggestion for the code at the cursor. Return several
+   * candidates to let them be cycled through with `Alt-]` and `Alt-[`.
+   */
+  fetchFn: (state: EditorState, signal: AbortSignal) => Promise<string | string[]>;
   delay?: number;
   /**
    * @default true
@@ -111,20 +169,30 @@ type InlineSuggestionOptions = {
    * @default 10000 // 10 seconds
    */
   cacheTimeout?: number;
+  /**
+   * Timeout and retries for `fetchFn`
+   * @default { timeout: 10000, retries: 1 }
+   */
+  requestPolicy?: RequestPolicy;
+  /**
+   * Steps that clean up suggestions before they're shown, in order
+   * @default []
+   */
+  postProcessors?: readonly PostProcessor[];
 };
 
 /**
  * Cache for inline suggestions
  */
 class SuggestionCache {
-  private cache: Map<string, { result: string; timestamp: number }> = new Map();
+  private cache: Map<string, { result: string[]; timestamp: number }> = new Map();
   private timeout: number;
 
   constructor(timeout: number) {
     this.timeout = timeout;
   }
 
-  get(key: string): string | null {
+  get(key: string): string[] | null {
     const entry = this.cache.get(key);
     if (!entry) return null;
 
@@ -136,11 +204,17 @@ class SuggestionCache {
     return entry.result;
   }
 
-  set(key: string, value: string) {
+  set(key: string, value: string[]) {
     this.cache.set(key, { result: value, timestamp: Date.now() });
   }
 }
 
+/** The state showing the first of some candidates */
+function showCandidates(candidates: string[]): InlineSuggestion {
+  const [suggestion = null] = candidates;
+  return candidates.length > 1 ? { suggestion, candidates, candidate: 0 } : { suggestion };
+}
+
 /**
  * Creates a plugin that fetches suggestions when the document changes
  */
@@ -156,6 +230,8 @@ const fetchSuggestion = (fetchFn: InlineFetchFn, options: InlineSuggestionOption
 
       async update(update: ViewUpdate) {
         if (!update.docChanged) return;
+        // The rest of a partly accepted suggestion is still shown
+        if (update.transactions.some((tr) => tr.isUserEvent("input.complete.partial"))) return;
 
         // Check if we should fetch
         if (options.events?.beforeSuggestionFetch?.(update.view) === false) {
@@ -173,7 +249,7 @@ const fetchSuggestion = (fetchFn: InlineFetchFn, options: InlineSuggestionOption
         const cached = this.cache.get(cacheKey);
         if (cached) {
           update.view.dispatch({
-            effects: InlineSuggestionEffect.of({ text: cached, doc }),
+            effects: InlineSuggestionEffect.of({ ...showCandidates(cached), doc }),
           });
           return;
         }
@@ -185,13 +261,16 @@ const fetchSuggestion = (fetchFn: InlineFetchFn, options: InlineSuggestionOption
             return;
           }
 
-          if (options.events?.shouldShowSuggestion?.(update.view, result) === false) {
+          const candidates = [...new Set(result)].filter(
+            (text) => text && options.events?.shouldShowSuggestion?.(update.view, text) !== false,
+          );
+          if (!candidates.length) {
             return;
           }
 
-          this.cache.set(cacheKey, result);
+          this.cache.set(cacheKey, candidates);
           update.view.dispatch({
-            effects: InlineSuggestionEffect.of({ text: result, doc }),
+            effects: InlineSuggestionEffect.of({ ...showCandidates(candidates), doc }),
           });
         } catch (err) {
           if (err instanceof Error && err.name !== "AbortError") {
@@ -218,12 +297,12 @@ const renderInlineSuggestionPlugin = ViewPlugin.fromClass(
       this.decorations = Decoration.none;
     }
     update(update: ViewUpdate) {
-      const suggestionText = update.state.field(InlineSuggestionState)?.suggestion;
-      if (!suggestionText) {
+      const state = update.state.field(InlineSuggestionState);
+      if (!state.suggestion) {
         this.decorations = Decoration.none;
         return;
       }
-      this.decorations = inlineSuggestionDecoration(update.view, suggestionText);
+      this.decorations = inlineSuggestionDecoration(update.view, state.suggestion, state);
     }
   },
   {
@@ -281,10 +360,60 @@ const acceptInlineCompletion: Command = (view: EditorView) => {
   });
 
   // Trigger event
-  config.events?.onSuggestionAccepted?.(view, suggestionText);
+  config.events?.onSuggestionAccepted?.(view, suggestionText, suggestionText);
   return true;
 };
 
+/**
+ * Accept the start of the suggestion, up to the end of its next word
+ * or line, and keep showing the rest of it at the cursor
+ */
+function acceptInlineCompletionPart(unit: "word" | "line"): Command {
+  return (view: EditorView) => {
+    const suggestionText = view.state.field(InlineSuggestionState)?.suggestion;
+    if (!suggestionText) return false;
+
+    const config = view.state.facet(inlineCompletionConfig);
+    const accepted = suggestionPart(suggestionText, unit);
+    const rest = suggestionText.slice(accepted.length);
+    const { head } = view.state.selection.main;
+
+    view.dispatch({
+      ...insertCompletionText(view.state, accepted, head, head),
+      effects: InlineSuggestionEffect.of({ suggestion: rest || null, doc: view.state.doc }),
+      userEvent: rest ? "input.complete.partial" : "input.complete",
+    });
+
+    config.events?.onSuggestionAccepted?.(view, suggestionText, accepted);
+    return true;
+  };
+}
+
+const acceptInlineCompletionWord = acceptInlineCompletionPart("word");
+const acceptInlineCompletionLine = acceptInlineCompletionPart("line");
+
+/** Show another of several candidates, `offset` away from the current one */
+function cycleInlineCompletion(offset: number): Command {
+  return (view: EditorView) => {
+    const { candidates, candidate = 0 } = view.state.field(InlineSuggestionState);
+    if (!candidates || candidates.length < 2) return false;
+
+    const index = (candidate + offset + candidates.length) % candidates.length;
+    view.dispatch({
+      effects: InlineSuggestionEffect.of({
+        suggestion: candidates[index] ?? null,
+        candidates,
+        candidate: index,
+        doc: view.state.doc,
+      }),
+    });
+    return true;
+  };
+}
+
+const nextInlineCompletion = cycleInlineCompletion(1);
+const previousInlineCompletion = cycleInlineCompletion(-1);
+
 const rejectInlineCompletion: Command = (view: EditorView) => {
   const suggestionText = view.state.field(InlineSuggestionState)?.suggestion;
   if (!suggestionText) return false;
@@ -292,7 +421,7 @@ const rejectInlineCompletion: Command = (view: EditorView) => {
   const config = view.state.facet(inlineCompletionConfig);
 
   view.dispatch({
-    effects: InlineSuggestionEffect.of({ text: null, doc: view.state.doc }),
+    effects: InlineSuggestionEffect.of({ suggestion: null, doc: view.state.doc }),
   });
 
   // Trigger event
@@ -300,10 +429,16 @@ const rejectInlineCompletion: Command = (view: EditorView) => {
   return true;
 };
 
+const DEFAULT_REQUEST_POLICY: RequestPolicy = { timeout: 10_000, retries: 1 };
+
 // Default keymap
 
 const inlineCompletionKeymap = keymap.of([
   { key: "Tab", run: acceptInlineCompletion },
+  { key: "Mod-ArrowRight", run: acceptInlineCompletionWord },
+  { key: "Mod-ArrowDown", run: acceptInlineCompletionLine },
+  { key: "Alt-]", run: nextInlineCompletion },
+  { key: "Alt-[", run: previousInlineCompletion },
   { key: "Escape", run: rejectInlineCompletion },
 ]);
 
@@ -318,15 +453,46 @@ const inlineCompletionConfig = Facet.define<InlineSuggestionOptions, InlineSugge
  */
 function inlineCompletion(options: InlineSuggestionOptions) {
   const { delay = 500, includeKeymap = true } = options;
-  const fetchFn = debouncePromise(options.fetchFn, delay);
+  const policy = { ...DEFAULT_REQUEST_POLICY, ...options.requestPolicy };
+  const fetchFn = debouncePromise(
+    (state: EditorState, signal: AbortSignal) =>
+      runRequest(
+        async (signal) => {
+          const result = await options.fetchFn(state, signal);
+          // Suggestions are inserted at the cursor
+          const { head } = state.selection.main;
+          return (Array.isArray(result) ? result : [result]).map((text) =>
+            postProcess(text, options.postProcessors ?? [], {
+              state,
+              from: head,
+              to: head,
+              oldCode: "",
+            }),
+          );
+        },
+        policy,
+        signal,
+      ),
+    delay,
+  );
 
   return [
     InlineSuggestionState,
     inlineCompletionConfig.of(options),
     fetchSuggestion(fetchFn, options),
     renderInlineSuggestionPlugin,
+    candidateCountStyle,
     includeKeymap ? inlineCompletionKeymap : [],
   ];
 }
 
-export { acceptInlineCompletion, rejectInlineCompletion, inlineCompletion, inlineCompletionKeymap };
+export {
+  acceptInlineCompletion,
+  acceptInlineCompletionLine,
+  acceptInlineCompletionWord,
+  rejectInlineCompletion,
+  inlineCompletion,
+  inlineCompletionKeymap,
+  nextInlineCompletion,
+  previousInlineCompletion,
+};
@@ -1,19 +1,53 @@
 import { type EditorState, type Extension, Prec, type Range, StateField } from "@codemirror/state";
-import { Decoration, type DecorationSet, EditorView, keymap } from "@codemirror/view";
-import { acceptAiEdit, rejectAiEdit, showAiEditInput } from "./commands.js";
+import {
+  Decoration,
+  type DecorationSet,
+  EditorView,
+  type PluginValue,
+  ViewPlugin,
+  type ViewUpdate,
+  keymap,
+} from "@codemirror/view";
+import {
+  acceptAiEdit,
+  acceptAiEditHunk,
+  acceptAllAiEdits,
+  nextAiEditCandidate,
+  nextAiEditHunk,
+  previousAiEditCandidate,
+  previousAiEditHunk,
+  rejectAiEdit,
+  rejectAiEditHunk,
+  rejectAllAiEdits,
+  repairAiEdit,
+  showAiEditInput,
+} from "./commands.js";
+import { completionHunks } from "./diff.js";
+import { editHistory } from "./edit-history.js";
+import { editRequestPlugin } from "./edit-request.js";
+import { promptHistoryPlugin } from "./prompt-history.js";
 import {
   type AiOptions,
+  type CompletionState,
   completionState,
+  completionsState,
+  contextProviders,
   defaultKeymaps,
   inputState,
   inputValueState,
   loadingState,
   optionsFacet,
-  showInput,
 } from "./state.js";
+import { syntaxCheckState, syntaxIssues } from "./syntax-check.js";
 import { aiTheme } from "./theme.js";
 import { triggerPlugin } from "./trigger.js";
-import { InputWidget, OldCodeWidget } from "./widgets.js";
+import {
+  InlineNewCodeWidget,
+  InlineOldCodeWidget,
+  InputWidget,
+  OldCodeWidget,
+  type OldCodeWidgetOptions,
+} from "./widgets.js";
 
 /**
  * Creates an AI-assisted editing extension for CodeMirror.
@@ -51,27 +85,47 @@ export function aiExtension(options: AiOptions): Extension[] {
     throw new Error("prompt function is required");
   }
 
+  const keymaps = { ...defaultKeymaps, ...options.keymaps };
+
   return [
     optionsFacet.of(options),
+    ...(options.contextProviders ?? []).map((provider) => contextProviders.of(provider)),
     inputState,
     inputValueState,
     completionState,
     loadingState,
+    editRequestPlugin,
+    editHistory,
+    syntaxCheckState,
+    autoRepairPlugin,
+    promptHistoryPlugin,
     triggerPlugin(),
     aiTheme,
     keymap.of([
       {
-        key: defaultKeymaps.showInput,
+        // Only with a selection, so that the key can still be typed
+        key: keymaps.showInput,
+        run: (view) => !view.state.selection.main.empty && showAiEditInput(view),
+      },
+      {
+        key: keymaps.insertAtCursor,
         run: showAiEditInput,
       },
     ]),
     Prec.highest([
       keymap.of([
-        { key: defaultKeymaps.acceptEdit, run: acceptAiEdit },
-        { key: defaultKeymaps.rejectEdit, run: rejectAiEdit },
+        { key: keymaps.acceptEdit, run: acceptAiEdit },
+        { key: keymaps.rejectEdit, run: rejectAiEdit },
+        { key: keymaps.acceptHunk, run: (view) => acceptAiEditHunk(view) },
+        { key: keymaps.rejectHunk, run: (view) => rejectAiEditHunk(view) },
+        { key: keymaps.nextHunk, run: nextAiEditHunk },
+        { key: keymaps.previousHunk, run: previousAiEditHunk },
+        { key: keymaps.acceptAllEdits, run: acceptAllAiEdits },
+        { key: keymaps.rejectAllEdits, run: rejectAllAiEdits },
+        { key: keymaps.nextCandidate, run: nextAiEditCandidate },
+        { key: keymaps.previousCandidate, run: previousAiEditCandidate },
       ]),
     ]),
-    lineShiftListener,
     // Decoration for the new code (green)
     newCodeDecoration,
     inputPromptDecoration,
@@ -82,54 +136,61 @@ export function aiExtension(options: AiOptions): Extension[] {
 }
 
 /**
- * Track line shifts and adjust the position of the input.
+ * @deprecated Pending edits are now mapped through document changes by
+ * their state field, so this listener does nothing. Drop it from your
+ * extensions.
  */
-export const lineShiftListener = EditorView.updateListener.of((update) => {
-  const inputStateValue = update.state.field(inputState);
-  if (!inputStateValue.show || !update.docChanged) return;
-
-  let { lineFrom, lineTo } = inputStateValue;
-  let shifted = false;
-
-  update.changes.iterChanges((fromA, _toA, fromB, toB) => {
-    const changePosLine = update.state.doc.lineAt(fromA).number;
-
-    if (changePosLine < lineFrom) {
-      // Changes before selection - shift both bounds
-      const linesAdded =
-        update.state.doc.lineAt(toB).number - update.state.doc.lineAt(fromB).number;
-      lineFrom += linesAdded;
-      lineTo += linesAdded;
-      shifted = true;
-    } else if (changePosLine <= lineTo) {
-      // Changes inside selection - adjust end bound
-      const linesAdded =
-        update.state.doc.lineAt(toB).number - update.state.doc.lineAt(fromB).number;
-      lineTo += linesAdded;
-      shifted = true;
-    }
-  });
+export const lineShiftListener = EditorView.updateListener.of(() => {});
+
+/**
+ * Decoration for the new code: inserted lines in green,
+ * with the changed words within modified lines highlighted.
+ * Unchanged lines are left alone.
+ */
+export const newCodeDecoration = EditorView.decorations.of((view) => {
+  const edits = view.state.field(completionsState);
+  if (!edits.length) return Decoration.none;
 
-  if (shifted) {
-    update.view.dispatch({
-      effects: [showInput.of({ show: true, lineFrom, lineTo })],
-    });
+  const decorations: Array<Range<Decoration>> = [];
+  for (const edit of edits) {
+    // The diff is out of date once something else changed the code,
+    // and a preview's new code isn't in the document
+    if (!edit.conflict && !edit.preview) decorations.push(...newCodeRanges(view.state, edit));
   }
+  return Decoration.set(decorations, true);
 });
 
-/** Decoration for the new code (green) */
-export const newCodeDecoration = EditorView.decorations.of((view) => {
-  const completionStateValue = view.state.field(completionState);
-  if (completionStateValue) {
-    return Decoration.set([
-      Decoration.mark({
-        class: "cm-new-code-line",
-      }).range(completionStateValue.from, completionStateValue.to),
-    ]);
+function newCodeRanges(state: EditorState, completion: CompletionState) {
+  const { doc } = state;
+  const { from, to } = completion;
+  const firstLine = doc.lineAt(from).number;
+  const decorations: Array<Range<Decoration>> = [];
+
+  for (const hunk of completionHunks(completion)) {
+    for (let line = hunk.newLineFrom; line < hunk.newLineTo; line++) {
+      const number = firstLine + line;
+      if (number > doc.lines) break;
+      const { from: lineFrom, to: lineTo } = doc.line(number);
+      // Lines the edit only covers part of, like when inserting at
+      // the cursor, get just the new text highlighted
+      if (lineFrom >= from && lineTo <= to) {
+        decorations.push(newLineDecoration.range(lineFrom));
+      } else if (Math.min(lineTo, to) > Math.max(lineFrom, from)) {
+        decorations.push(newTextDecoration.range(Math.max(lineFrom, from), Math.min(lineTo, to)));
+      }
+    }
+    for (const word of hunk.newWords) {
+      if (from + word.to > doc.length) break;
+      decorations.push(newWordDecoration.range(from + word.from, from + word.to));
+    }
   }
 
-  return Decoration.none;
-});
+  return decorations;
+}
+
+const newLineDecoration = Decoration.line({ class: "cm-new-code-line" });
+const newTextDecoration = Decoration.mark({ class: "cm-new-code-text" });
+const newWordDecoration = Decoration.mark({ class: "cm-diff-highlight-add" });
 
 /** Decoration for the input prompt */
 export const inputPromptDecoration = EditorView.decorations.compute([inputState], (state) => {
@@ -143,9 +204,13 @@ export const inputPromptDecoration = EditorView.decorations.compute([inputState]
 
     // Iterate in whole lines, but get the pos of each line's first
     // character for each, because that's what ranges want.
+    const { range } = inputStateValue;
     for (let line = lineStart; line <= lineEnd; line++) {
       const pos = state.doc.line(line).from;
-      decorations.push(Decoration.line({ class: "cm-ai-selection" }).range(pos));
+      // An exact range is highlighted below instead
+      if (!range) {
+        decorations.push(Decoration.line({ class: "cm-ai-selection" }).range(pos));
+      }
 
       // This needs to be interleaved because CodeMirror wants
       // the decorations sorted
@@ -158,29 +223,299 @@ export const inputPromptDecoration = EditorView.decorations.compute([inputState]
         );
       }
     }
+    if (range && range.from < range.to) {
+      decorations.push(selectedTextDecoration.range(range.from, range.to));
+    }
+
+    // The other selections the prompt applies to
+    for (const other of inputStateValue.others ?? []) {
+      if (range || !isWholeLines(state, other)) {
+        if (other.from < other.to) {
+          decorations.push(selectedTextDecoration.range(other.from, other.to));
+        }
+        continue;
+      }
+      for (let pos = other.from; pos <= other.to; ) {
+        const line = state.doc.lineAt(pos);
+        decorations.push(Decoration.line({ class: "cm-ai-selection" }).range(line.from));
+        pos = line.to + 1;
+      }
+    }
   }
 
-  return Decoration.set(decorations);
+  return Decoration.set(decorations, true);
 });
 
+const selectedTextDecoration = Decoration.mark({ class: "cm-ai-selection-text" });
+
+function isWholeLines(state: EditorState, { from, to }: { from: number; to: number }) {
+  return state.doc.lineAt(from).from === from && state.doc.lineAt(to).to === to;
+}
+
 /**
- * Decoration highlighting old code with red
+ * Decoration showing the removed code of each hunk in red, above
+ * the lines that replace it. The first widget also carries the
+ * accept/reject buttons.
  *
- * Depends on the completionState facet.
+ * Depends on the completionsState field.
  */
 export const oldCodeDecoration = StateField.define<DecorationSet>({
   create(_state: EditorState) {
     return Decoration.none;
   },
   update(_oldState, tr) {
-    const completionStateValue = tr.state.field(completionState);
-    if (!completionStateValue) return Decoration.none;
-    return Decoration.set([
-      Decoration.widget({
-        widget: new OldCodeWidget(completionStateValue.oldCode),
-        block: true,
-      }).range(completionStateValue.from),
-    ]);
+    const edits = tr.state.field(completionsState);
+    if (!edits.length) return Decoration.none;
+    return Decoration.set(
+      edits.flatMap((edit) => oldCodeWidgets(tr.state, edit, edits.length)),
+      true,
+    );
   },
   provide: (f) => EditorView.decorations.from(f),
 });
+
+function oldCodeWidgets(state: EditorState, completion: CompletionState, editCount: number) {
+  const { doc } = state;
+  const { from, streaming = false, refining = false, candidates } = completion;
+  const candidate =
+    candidates && candidates.length > 1
+      ? { index: completion.candidate ?? 0, count: candidates.length }
+      : null;
+  // Options of the widget with the buttons for the whole edit
+  const controls = {
+    streaming,
+    refining,
+    candidate,
+    edit: completion.id ?? null,
+    editCount,
+    conflict: completion.conflict === true,
+    preview: completion.preview === true,
+    newCode: null,
+    syntaxIssues: streaming ? [] : syntaxIssues(state, completion),
+  };
+  const firstLine = doc.lineAt(from).number;
+  const oldLines = completion.oldCode.split("\n");
+  const newLineCount = completion.newCode.split("\n").length;
+  const hunks = completionHunks(completion);
+  // Per-hunk buttons are only worth showing when there is more than one
+  const perHunk = hunks.length > 1 && !streaming;
+  const widgets: Array<Range<Decoration>> = [];
+  let hasButtons = false;
+
+  // Only the notice and a way to dismiss it are left after a conflict
+  if (completion.conflict) {
+    return [
+      Decoration.widget({
+        widget: new OldCodeWidget(null, { showButtons: true, hunk: null, ...controls }),
+        block: true,
+        side: -1,
+      }).range(doc.lineAt(from).from),
+    ];
+  }
+
+  if (completion.preview) {
+    return previewWidgets(state, completion, controls);
+  }
+
+  // An edit within a single line shows the text it removed
+  // inline, in front of the new text
+  if (isWithinLine(state, completion)) {
+    widgets.push(
+      Decoration.widget({
+        widget: new OldCodeWidget(null, { showButtons: true, hunk: null, ...controls }),
+        block: true,
+        side: -1,
+      }).range(doc.lineAt(from).from),
+    );
+    if (completion.oldCode) {
+      widgets.push(
+        Decoration.widget({ widget: new InlineOldCodeWidget(completion.oldCode), side: -1 }).range(
+          from,
+        ),
+      );
+    }
+    return widgets;
+  }
+
+  hunks.forEach((hunk, index) => {
+    // An insertion has no old code, not even an empty line
+    const removesLines = hunk.oldLineFrom < hunk.oldLineTo && completion.oldCode !== "";
+    if (!removesLines && !perHunk) return;
+
+    const before = oldLines.slice(0, hunk.oldLineFrom);
+    const start = before.length ? before.join("\n").length + 1 : 0;
+    const text = oldLines.slice(hunk.oldLineFrom, hunk.oldLineTo).join("\n");
+    const words = hunk.oldWords.map((word) => ({ from: word.from - start, to: word.to - start }));
+
+    // Show the removed lines above the lines that replace them, or
+    // below the last line when they were removed from the end
+    const atEnd = hunk.newLineFrom >= newLineCount;
+    const line = doc.line(
+      Math.min(firstLine + (atEnd ? newLineCount - 1 : hunk.newLineFrom), doc.lines),
+    );
+    const showButtons = !widgets.length && hunk.newLineFrom === 0;
+    hasButtons ||= showButtons;
+    widgets.push(
+      Decoration.widget({
+        widget: new OldCodeWidget(removesLines ? { text, words } : null, {
+          showButtons,
+          hunk: perHunk ? index : null,
+          ...controls,
+        }),
+        block: true,
+        side: atEnd ? 1 : -1,
+      }).range(atEnd ? line.to : line.from),
+    );
+  });
+
+  // Keep the buttons at the top of the change, even
+  // when nothing was removed there
+  if (!hasButtons) {
+    widgets.push(
+      Decoration.widget({
+        widget: new OldCodeWidget(null, { showButtons: true, hunk: null, ...controls }),
+        block: true,
+        side: -1,
+      }).range(doc.lineAt(from).from),
+    );
+  }
+
+  for (const issue of controls.syntaxIssues) {
+    const number = firstLine + issue.line - 1;
+    if (number <= doc.lines) widgets.push(syntaxErrorLineDecoration.range(doc.line(number).from));
+  }
+
+  return widgets;
+}
+
+/**
+ * Decorations for an edit shown as a preview: the old code, which is
+ * still in the document, is marked as removed, and the new code is
+ * shown in widgets next to it
+ */
+function previewWidgets(
+  state: EditorState,
+  completion: CompletionState,
+  controls: Omit<OldCodeWidgetOptions, "showButtons" | "hunk">,
+) {
+  const { doc } = state;
+  const { from, to } = completion;
+  const widgets: Array<Range<Decoration>> = [
+    Decoration.widget({
+      widget: new OldCodeWidget(null, { showButtons: true, hunk: null, ...controls }),
+      block: true,
+      side: -1,
+    }).range(doc.lineAt(from).from),
+  ];
+
+  if (isWithinLine(state, completion)) {
+    if (from < to) widgets.push(removedWordDecoration.range(from, to));
+    widgets.push(
+      Decoration.widget({ widget: new InlineNewCodeWidget(completion.newCode), side: 1 }).range(to),
+    );
+    return widgets;
+  }
+
+  const firstLine = doc.lineAt(from).number;
+  const newLines = completion.newCode.split("\n");
+  const oldLineCount = completion.oldCode.split("\n").length;
+  const hunks = completionHunks(completion);
+  const perHunk = hunks.length > 1 && !controls.streaming;
+
+  hunks.forEach((hunk, index) => {
+    // An insertion has no old code, not even an empty line
+    const removesLines = hunk.oldLineFrom < hunk.oldLineTo && completion.oldCode !== "";
+    const addsLines = hunk.newLineFrom < hunk.newLineTo;
+
+    if (removesLines) {
+      for (let line = hunk.oldLineFrom; line < hunk.oldLineTo; line++) {
+        const number = firstLine + line;
+        if (number > doc.lines) break;
+        const { from: lineFrom, to: lineTo } = doc.line(number);
+        if (lineFrom >= from && lineTo <= to) {
+          widgets.push(removedLineDecoration.range(lineFrom));
+        } else if (Math.min(lineTo, to) > Math.max(lineFrom, from)) {
+          widgets.push(removedTextDecoration.range(Math.max(lineFrom, from), Math.min(lineTo, to)));
+        }
+      }
+      for (const word of hunk.oldWords) {
+        if (from + word.to > to) break;
+        widgets.push(removedWordDecoration.range(from + word.from, from + word.to));
+      }
+    }
+    if (!addsLines && !perHunk) return;
+
+    const before = newLines.slice(0, hunk.newLineFrom);
+    const start = before.length ? before.join("\n").length + 1 : 0;
+    const text = newLines.slice(hunk.newLineFrom, hunk.newLineTo).join("\n");
+    const words = hunk.newWords.map((word) => ({ from: word.from - start, to: word.to - start }));
+
+    // Show the new lines below the lines they replace, or above the
+    // line they are inserted in front of
+    const below =
+      removesLines ||
+      hunk.oldLineFrom >= oldLineCount ||
+      (!completion.oldCode && from > doc.lineAt(from).from);
+    const lineIndex = below ? Math.max(hunk.oldLineTo, hunk.oldLineFrom + 1) - 1 : hunk.oldLineFrom;
+    const line = doc.line(Math.min(firstLine + Math.min(lineIndex, oldLineCount - 1), doc.lines));
+    widgets.push(
+      Decoration.widget({
+        widget: new OldCodeWidget(null, {
+          showButtons: false,
+          hunk: perHunk ? index : null,
+          ...controls,
+          newCode: addsLines ? { text, words } : null,
+        }),
+        block: true,
+        side: below ? 1 : -1,
+      }).range(below ? line.to : line.from),
+    );
+  });
+
+  return widgets;
+}
+
+const removedLineDecoration = Decoration.line({ class: "cm-old-code-line" });
+const syntaxErrorLineDecoration = Decoration.line({ class: "cm-ai-syntax-error-line" });
+const removedTextDecoration = Decoration.mark({ class: "cm-old-code-text" });
+const removedWordDecoration = Decoration.mark({ class: "cm-diff-highlight-remove" });
+
+/** Whether both sides of the edit are part of a single line */
+function isWithinLine(state: EditorState, { from, to, oldCode, newCode }: CompletionState) {
+  if (oldCode.includes("\n") || newCode.includes("\n")) return false;
+  const line = state.doc.lineAt(from);
+  return from > line.from || to < line.to;
+}
+
+/**
+ * With `validateSyntax: "repair"`, asks for the syntax errors in the
+ * pending edit at the cursor to be fixed as soon as they're found.
+ * Each proposal is only repaired once, and repairs aren't repaired.
+ */
+const autoRepairPlugin = ViewPlugin.fromClass(
+  class AutoRepairPlugin implements PluginValue {
+    /** The last proposal a repair was asked for */
+    repairing: string | null = null;
+    timeout: ReturnType<typeof setTimeout> | undefined;
+
+    update(update: ViewUpdate) {
+      if (update.state.facet(optionsFacet).validateSyntax !== "repair") return;
+      const completion = update.state.field(completionState);
+      if (!completion || completion.repaired || completion.newCode === this.repairing) return;
+      if (completion.streaming || completion.refining || completion.conflict) return;
+      if (!syntaxIssues(update.state, completion).length) return;
+      this.repairing = completion.newCode;
+      // The view can't be updated in the middle of an update
+      clearTimeout(this.timeout);
+      this.timeout = setTimeout(() => {
+        this.timeout = undefined;
+        repairAiEdit(update.view);
+      }, 0);
+    }
+
+    destroy() {
+      // Don't ask for a repair for a view that's gone
+      clearTimeout(this.timeout);
+    }
+  },
+);
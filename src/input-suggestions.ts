@@ -0,0 +1,116 @@
+import { ce } from "./utils.js";
+
+/** An entry of an {@link InputSuggestions} list */
+export interface InputSuggestion {
+  label: string;
+  /** Secondary text shown after the label */
+  detail?: string;
+}
+
+let nextListId = 0;
+
+/**
+ * A listbox of suggestions for a text input, like earlier prompts.
+ * Implements the combobox pattern: the input keeps focus, and the
+ * arrow keys move the active option.
+ */
+export class InputSuggestions<T extends InputSuggestion> {
+  readonly dom: HTMLUListElement;
+  private items: T[] = [];
+  private selected = -1;
+  private id = `cm-ai-suggestions-${nextListId++}`;
+
+  constructor(
+    private input: HTMLInputElement,
+    label: string,
+    private onPick: (item: T) => void,
+  ) {
+    this.dom = ce("ul", "cm-ai-input-suggestions");
+    this.dom.id = this.id;
+    this.dom.setAttribute("role", "listbox");
+    this.dom.setAttribute("aria-label", label);
+    this.dom.hidden = true;
+
+    input.setAttribute("role", "combobox");
+    input.setAttribute("aria-autocomplete", "list");
+    input.setAttribute("aria-controls", this.id);
+    input.setAttribute("aria-expanded", "false");
+  }
+
+  get open() {
+    return this.items.length > 0;
+  }
+
+  /** Show the given items, or hide the list if there are none */
+  show(items: T[], label?: string) {
+    if (label) this.dom.setAttribute("aria-label", label);
+    this.items = items;
+    this.selected = -1;
+    this.dom.replaceChildren(
+      ...items.map((item, index) => {
+        const option = ce("li", "cm-ai-input-suggestion");
+        option.id = `${this.id}-${index}`;
+        option.setAttribute("role", "option");
+        option.setAttribute("aria-selected", "false");
+        option.append(item.label);
+        if (item.detail) {
+          const detail = option.appendChild(ce("span", "cm-ai-input-suggestion-detail"));
+          detail.textContent = item.detail;
+        }
+        // Keep focus in the input
+        option.addEventListener("mousedown", (e) => e.preventDefault());
+        option.addEventListener("click", () => this.pick(index));
+        return option;
+      }),
+    );
+    this.dom.hidden = !this.open;
+    this.input.setAttribute("aria-expanded", String(this.open));
+    this.input.removeAttribute("aria-activedescendant");
+  }
+
+  hide() {
+    this.show([]);
+  }
+
+  /**
+   * Handle a keydown event on the input. Returns true if it
+   * was used to navigate or pick from the list.
+   */
+  handleKey(e: KeyboardEvent): boolean {
+    if (!this.open) return false;
+    switch (e.key) {
+      case "ArrowDown":
+        this.select(this.selected + 1 < this.items.length ? this.selected + 1 : 0);
+        return true;
+      case "ArrowUp":
+        this.select(this.selected > 0 ? this.selected - 1 : this.items.length - 1);
+        return true;
+      case "Enter":
+        if (this.selected < 0) return false;
+        this.pick(this.selected);
+        return true;
+      case "Tab":
+        this.pick(Math.max(this.selected, 0));
+        return true;
+      case "Escape":
+        this.hide();
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private select(index: number) {
+    this.selected = index;
+    this.dom.childNodes.forEach((option, i) => {
+      (option as HTMLElement).setAttribute("aria-selected", String(i === index));
+    });
+    this.input.setAttribute("aria-activedescendant", `${this.id}-${index}`);
+  }
+
+  private pick(index: number) {
+    const item = this.items[index];
+    this.hide();
+    if (item) this.onPick(item);
+  }
+}
@@ -0,0 +1,38 @@
+import { indentUnit, language, syntaxTree } from "@codemirror/language";
+import type { EditorState } from "@codemirror/state";
+import type { LanguageInfo } from "./state.js";
+
+/** The `commentTokens` language data, as languages define it */
+interface CommentTokens {
+  line?: string;
+  block?: { open: string; close: string };
+}
+
+/**
+ * What the editor knows about the language of the code at `from`..`to`,
+ * for backends that serve editors of several languages
+ */
+export function languageInfo(state: EditorState, from: number, to: number): LanguageInfo {
+  const name = state.facet(language)?.name;
+  const [comments] = state.languageDataAt<CommentTokens>("commentTokens", from);
+  return {
+    ...(name && { name }),
+    indentUnit: state.facet(indentUnit),
+    ...(comments?.line && { lineComment: comments.line }),
+    enclosingNodes: enclosingNodes(state, from, to),
+  };
+}
+
+/**
+ * Types of the syntax nodes that contain `from`..`to`,
+ * innermost first, leaving out the top node
+ */
+function enclosingNodes(state: EditorState, from: number, to: number) {
+  const types: string[] = [];
+  for (let node = syntaxTree(state).resolveInner(from, 1); node.parent; node = node.parent) {
+    if (node.from <= from && node.to >= to && !node.type.isError && node.name) {
+      types.push(node.name);
+    }
+  }
+  return types;
+}
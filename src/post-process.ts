@@ -0,0 +1,124 @@
+import { getIndentation, indentString } from "@codemirror/language";
+import type { EditorState } from "@codemirror/state";
+
+/** Where the text a post-processor gets is going */
+export interface PostProcessContext {
+  state: EditorState;
+  /** The range the text replaces */
+  from: number;
+  to: number;
+  /** The code it replaces */
+  oldCode: string;
+}
+
+/**
+ * Cleans up the text a model returned before it's used,
+ * as one step of a pipeline
+ */
+export type PostProcessor = (text: string, context: PostProcessContext) => string;
+
+/** Run text through a pipeline of post-processors, in order */
+export function postProcess(
+  text: string,
+  processors: readonly PostProcessor[],
+  context: PostProcessContext,
+): string {
+  return processors.reduce((result, processor) => processor(result, context), text);
+}
+
+const FENCE_LINE = /^[ \t]*(`{3,}|~{3,})/m;
+const FENCED_BLOCK = /^[ \t]*(`{3,}|~{3,})[^\n]*\n([\s\S]*?)\n?[ \t]*\1[ \t]*$/m;
+
+/**
+ * Take the code out of a Markdown code block, dropping whatever is
+ * around it. An unclosed block, as in a cut-off answer, is taken as is.
+ * Left alone when the code it replaces has code fences of its own.
+ */
+export const stripCodeFences: PostProcessor = (text, { oldCode }) => {
+  if (FENCE_LINE.test(oldCode)) return text;
+  const block = FENCED_BLOCK.exec(text);
+  if (block) return block[2] ?? "";
+  return text.replace(/^\s*(`{3,}|~{3,})[^\n]*\n/, "").replace(/\n[ \t]*(`{3,}|~{3,})[ \t]*$/, "");
+};
+
+const CODE_TAG = /<code>([\s\S]*?)<\/code>/;
+// Lines that introduce the code, like "Here's the updated function:"
+const PROSE_INTRO =
+  /^(here|sure|certainly|okay|ok|below|i've|i have|i'll|the following)\b.*[:.!]$/i;
+// Paragraphs that explain it, like "This renames `x` to `count`."
+const PROSE_OUTRO = /^\**(this|these|the|i|i've|i'll|note|explanation|changes)\b.*[:.!]\**$/i;
+
+/**
+ * Drop the prose a model wrote around the code: the text around
+ * `<code>` tags, lines introducing the code, paragraphs explaining it
+ * at the end, and blank lines at the start
+ */
+export const trimProse: PostProcessor = (text) => {
+  const tagged = CODE_TAG.exec(text);
+  const lines = (tagged ? (tagged[1] ?? "") : text).split("\n");
+  while (lines.length && (!lines[0]?.trim() || PROSE_INTRO.test(lines[0].trim()))) {
+    lines.shift();
+  }
+  // Paragraphs are dropped from the end until one is code
+  for (let i = lines.length - 1; i > 0; i--) {
+    if (lines[i - 1]?.trim() || !lines[i]?.trim()) continue;
+    if (!PROSE_OUTRO.test(lines[i] ?? "")) break;
+    lines.length = i - 1;
+  }
+  return lines.join("\n");
+};
+
+/**
+ * Indent the text like the code it replaces: its first line gets the
+ * indentation of the first line it replaces, and the lines after it
+ * keep their indentation relative to it. When inserting on a blank
+ * line, the language's indentation for that line is used. Edits that
+ * start in the middle of a line are left alone.
+ */
+export const reindent: PostProcessor = (text, { state, from, oldCode }) => {
+  const line = state.doc.lineAt(from);
+  const before = state.sliceDoc(line.from, from);
+  if (before.trim()) return text;
+
+  const firstLine = (before + oldCode).split("\n").find((l) => l.trim());
+  let target: string;
+  if (firstLine === undefined) {
+    const column = getIndentation(state, from);
+    if (column === null) return text;
+    target = indentString(state, column);
+  } else {
+    target = leadingSpace(firstLine);
+  }
+
+  const lines = text.split("\n");
+  const base = leadingSpace(lines.find((l) => l.trim()) ?? "");
+  const indented = lines.map((l) => {
+    if (!l.trim()) return l;
+    return target + l.slice(Math.min(leadingSpace(l).length, base.length));
+  });
+  // The first line goes after the whitespace already before `from`
+  const [first = ""] = indented;
+  indented[0] = first.startsWith(before) ? first.slice(before.length) : first.trimStart();
+  return indented.join("\n");
+};
+
+/**
+ * End the text with a line break only if the code it replaces ends
+ * with one, dropping the blank lines at its end
+ */
+export const normalizeTrailingNewline: PostProcessor = (text, { oldCode }) => {
+  const trimmed = text.replace(/(\r?\n[ \t]*)+$/, "");
+  return oldCode.endsWith("\n") ? `${trimmed}\n` : trimmed;
+};
+
+/** The post-processors used by default */
+export const defaultPostProcessors: readonly PostProcessor[] = [
+  stripCodeFences,
+  trimProse,
+  reindent,
+  normalizeTrailingNewline,
+];
+
+function leadingSpace(line: string) {
+  return /^[ \t]*/.exec(line)?.[0] ?? "";
+}
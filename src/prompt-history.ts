@@ -0,0 +1,90 @@
+import { type EditorView, type PluginValue, ViewPlugin, type ViewUpdate } from "@codemirror/view";
+import {
+  type PromptHistoryStorage,
+  inputValueState,
+  optionsFacet,
+  setPromptHistory,
+} from "./state.js";
+
+const DEFAULT_STORAGE_KEY = "codemirror-ai:prompt-history";
+
+/**
+ * Prompt history storage that keeps prompts in memory. Share one
+ * instance between editors to give them a common history.
+ */
+export function memoryPromptHistory(initial: string[] = []): PromptHistoryStorage {
+  let history = [...initial];
+  return {
+    load: () => [...history],
+    save: (value) => {
+      history = [...value];
+    },
+  };
+}
+
+/**
+ * Prompt history storage backed by `localStorage`, so
+ * prompts are remembered across page loads.
+ */
+export function localStoragePromptHistory(key = DEFAULT_STORAGE_KEY): PromptHistoryStorage {
+  return {
+    load() {
+      try {
+        const parsed: unknown = JSON.parse(localStorage.getItem(key) ?? "[]");
+        return Array.isArray(parsed)
+          ? parsed.filter((item): item is string => typeof item === "string")
+          : [];
+      } catch {
+        return [];
+      }
+    },
+    save(history) {
+      try {
+        localStorage.setItem(key, JSON.stringify(history));
+      } catch {
+        // Storage is full or unavailable; the history
+        // is still kept in memory
+      }
+    },
+  };
+}
+
+/**
+ * Loads the prompt history from the configured storage when the
+ * editor starts, and saves it whenever it changes.
+ */
+export const promptHistoryPlugin = ViewPlugin.fromClass(
+  class PromptHistoryPlugin implements PluginValue {
+    storage: PromptHistoryStorage | undefined;
+    destroyed = false;
+
+    constructor(view: EditorView) {
+      this.storage = view.state.facet(optionsFacet).promptHistory;
+      if (!this.storage) return;
+      Promise.resolve(this.storage.load()).then(
+        (loaded) => {
+          if (this.destroyed) return;
+          // Keep anything submitted while the history was loading
+          const { history } = view.state.field(inputValueState);
+          const limit = view.state.facet(optionsFacet).promptHistoryLimit;
+          const merged = [...new Set([...history, ...loaded])].slice(0, limit);
+          view.dispatch({ effects: setPromptHistory.of(merged) });
+        },
+        (error) => view.state.facet(optionsFacet).onError?.(error),
+      );
+    }
+
+    update(update: ViewUpdate) {
+      const { history } = update.state.field(inputValueState);
+      if (this.storage && history !== update.startState.field(inputValueState).history) {
+        Promise.resolve(this.storage.save(history)).catch((error) =>
+          update.state.facet(optionsFacet).onError?.(error),
+        );
+      }
+    }
+
+    destroy() {
+      this.destroyed = true;
+    }
+  },
+);
@@ -0,0 +1,441 @@
+import type { EditorState } from "@codemirror/state";
+import { AiError, type AiErrorCategory } from "./errors.js";
+import type { ChatMessage, CompleteFunction, CompletionResult, CreateEditOpts } from "./state.js";
+import { collectCompletion, isAbortError, iterateStream } from "./utils.js";
+
+/** Where to find a model, and how to ask it */
+export interface ProviderConfig {
+  /** Name of the model, like `"gpt-4o-mini"` or `"qwen2.5-coder"` */
+  model: string;
+  /** URL the API paths are added to; each provider has a default */
+  baseUrl?: string;
+  apiKey?: string;
+  /** Headers added to every request */
+  headers?: Record<string, string>;
+  /** Fields added to every request body, like `temperature` */
+  body?: Record<string, unknown>;
+  /** Maximum number of tokens to generate */
+  maxTokens?: number;
+  /** Stream the answers of chat requests as they're generated. Defaults to true. */
+  stream?: boolean;
+  /**
+   * Turns the options of a `prompt` call into chat messages.
+   * Defaults to `editMessages`.
+   */
+  messages?: (opts: CreateEditOpts) => ChatMessage[];
+  /** The `fetch` to send requests with */
+  fetch?: typeof fetch;
+}
+
+/** Options of a single request */
+export interface ProviderRequestOptions {
+  signal?: AbortSignal;
+  /** Stream the answer; defaults to the `stream` option */
+  stream?: boolean;
+  /** Number of alternative answers wanted, where the API supports it */
+  n?: number;
+}
+
+/**
+ * Functions that send requests to a model, built by `openAiProvider`,
+ * `anthropicProvider` or `ollamaProvider`. Failed requests throw an
+ * `AiError`, with the message the API gave.
+ */
+export interface AiProvider {
+  /**
+   * A `prompt` for `aiExtension` and `aiAutocomplete`, sending chat
+   * requests, or FIM requests for `aiAutocomplete` in FIM mode
+   */
+  complete: CompleteFunction;
+  /** A `fetchFn` for `inlineCompletion`, asking for the code at the cursor */
+  fetchFn: (state: EditorState, signal: AbortSignal) => Promise<string>;
+  /** Send a chat. A streamed answer comes as an async iterable of text. */
+  chat(messages: ChatMessage[], options?: ProviderRequestOptions): Promise<CompletionResult>;
+  /** Ask for the code that goes between `prefix` and `suffix` (fill in the middle) */
+  fim(prefix: string, suffix: string, options?: ProviderRequestOptions): Promise<string>;
+}
+
+const SYSTEM_PROMPT =
+  "You are a code editor. Reply with only the code that replaces the selection, without explanations or Markdown code blocks.";
+
+/**
+ * The default chat messages for a `prompt` call: the code around the
+ * selection and the attached context go with the first instruction,
+ * followed by the earlier turns of the conversation, if any
+ */
+export function editMessages(opts: CreateEditOpts): ChatMessage[] {
+  const language = opts.language?.name ? ` The code is ${opts.language.name}.` : "";
+  const context = (opts.context ?? []).map(
+    ({ id, content }) => `<context name="${id}">\n${content}\n</context>\n`,
+  );
+  const code = `${context.join("")}<code_before>\n${opts.codeBefore}\n</code_before>\n<selection>\n${opts.selection}\n</selection>\n<code_after>\n${opts.codeAfter}\n</code_after>\n\n`;
+
+  const history = opts.history ?? [];
+  const messages: ChatMessage[] = [{ role: "system", content: SYSTEM_PROMPT + language }];
+  [...history.map((turn) => turn.prompt), opts.prompt].forEach((prompt, i) => {
+    messages.push({ role: "user", content: i === 0 ? code + prompt : prompt });
+    const response = history[i]?.response;
+    if (response !== undefined) messages.push({ role: "assistant", content: response });
+  });
+  return messages;
+}
+
+/**
+ * Chat messages that send the prompt as is, for callers that write
+ * the whole prompt themselves, like `aiAutocomplete`
+ */
+export function promptMessages(opts: CreateEditOpts): ChatMessage[] {
+  return [{ role: "user", content: opts.prompt }];
+}
+
+/** Chat messages asking for the code at the cursor, for APIs without FIM */
+function fimMessages(prefix: string, suffix: string): ChatMessage[] {
+  return [
+    {
+      role: "system",
+      content:
+        "You complete code. Reply with only the code that goes at <cursor/>, without explanations or Markdown code blocks.",
+    },
+    { role: "user", content: `${prefix}<cursor/>${suffix}` },
+  ];
+}
+
+/**
+ * An adapter for the OpenAI chat completions API, and the many servers
+ * that implement it (vLLM, llama.cpp, LM Studio, OpenRouter, Ollama's
+ * `/v1`...). FIM requests go to the legacy completions API, with a
+ * `suffix`.
+ */
+export function openAiProvider(
+  config: ProviderConfig & {
+    /** Path of the FIM endpoint, like `"/fim/completions"` for Mistral */
+    fimPath?: string;
+  },
+): AiProvider {
+  const baseUrl = config.baseUrl ?? "https://api.openai.com/v1";
+  const headers: Record<string, string> = config.apiKey
+    ? { Authorization: `Bearer ${config.apiKey}` }
+    : {};
+
+  return createProvider(config, {
+    async chat(messages, { signal, stream = config.stream ?? true, n = 1 } = {}) {
+      // Several answers can't be streamed together
+      const streaming = stream && n === 1;
+      const response = await post(config, `${baseUrl}/chat/completions`, headers, signal, {
+        model: config.model,
+        messages,
+        ...(config.maxTokens && { max_tokens: config.maxTokens }),
+        ...(n > 1 && { n }),
+        stream: streaming,
+      });
+      if (streaming) {
+        return openAiStream(response, (chunk: OpenAiChunk) => chunk.choices?.[0]?.delta?.content);
+      }
+      const json = (await readJson(response)) as OpenAiChunk;
+      const answers = (json.choices ?? []).map((choice) => choice.message?.content ?? "");
+      if (!answers.length) throw invalidOutput(json);
+      return n > 1 ? answers : (answers[0] ?? "");
+    },
+
+    async fim(prefix, suffix, { signal } = {}) {
+      const response = await post(
+        config,
+        `${baseUrl}${config.fimPath ?? "/completions"}`,
+        headers,
+        signal,
+        {
+          model: config.model,
+          prompt: prefix,
+          suffix,
+          ...(config.maxTokens && { max_tokens: config.maxTokens }),
+          stream: false,
+        },
+      );
+      const json = (await readJson(response)) as OpenAiChunk;
+      const text = json.choices?.[0]?.text;
+      if (text === undefined) throw invalidOutput(json);
+      return text;
+    },
+  });
+}
+
+/**
+ * An adapter for the Anthropic messages API. It has no FIM endpoint,
+ * so FIM requests are sent as a chat.
+ */
+export function anthropicProvider(
+  config: ProviderConfig & {
+    /** Value of the `anthropic-version` header */
+    version?: string;
+  },
+): AiProvider {
+  const baseUrl = config.baseUrl ?? "https://api.anthropic.com/v1";
+  const headers: Record<string, string> = {
+    "anthropic-version": config.version ?? "2023-06-01",
+    ...(config.apiKey && { "x-api-key": config.apiKey }),
+  };
+
+  const chat: AiProvider["chat"] = async (
+    messages,
+    { signal, stream = config.stream ?? true } = {},
+  ) => {
+    // The system prompt is a field of its own
+    const system = messages.filter((message) => message.role === "system");
+    const response = await post(config, `${baseUrl}/messages`, headers, signal, {
+      model: config.model,
+      max_tokens: config.maxTokens ?? 1024,
+      ...(system.length && { system: system.map((message) => message.content).join("\n\n") }),
+      messages: messages.filter((message) => message.role !== "system"),
+      stream,
+    });
+    if (stream) return anthropicStream(response);
+    const json = (await readJson(response)) as AnthropicMessage;
+    const text = json.content?.filter((block) => block.type === "text").map((block) => block.text);
+    if (!text?.length) throw invalidOutput(json);
+    return text.join("");
+  };
+
+  return createProvider(config, {
+    chat,
+    fim: async (prefix, suffix, { signal } = {}) =>
+      collectCompletion(chat(fimMessages(prefix, suffix), { signal, stream: false })),
+  });
+}
+
+/**
+ * An adapter for Ollama's own API. FIM requests need a model whose
+ * template supports a suffix, like `qwen2.5-coder` or `codellama:code`.
+ */
+export function ollamaProvider(config: ProviderConfig): AiProvider {
+  const baseUrl = config.baseUrl ?? "http://localhost:11434";
+  const headers: Record<string, string> = config.apiKey
+    ? { Authorization: `Bearer ${config.apiKey}` }
+    : {};
+  const options = config.maxTokens ? { options: { num_predict: config.maxTokens } } : {};
+
+  return createProvider(config, {
+    async chat(messages, { signal, stream = config.stream ?? true } = {}) {
+      const response = await post(config, `${baseUrl}/api/chat`, headers, signal, {
+        model: config.model,
+        messages,
+        stream,
+        ...options,
+      });
+      if (stream) return ollamaStream(response, (line: OllamaLine) => line.message?.content);
+      const json = (await readJson(response)) as OllamaLine;
+      const text = json.message?.content;
+      if (text === undefined) throw invalidOutput(json);
+      return text;
+    },
+
+    async fim(prefix, suffix, { signal } = {}) {
+      const response = await post(config, `${baseUrl}/api/generate`, headers, signal, {
+        model: config.model,
+        prompt: prefix,
+        suffix,
+        stream: false,
+        ...options,
+      });
+      const json = (await readJson(response)) as OllamaLine;
+      if (json.response === undefined) throw invalidOutput(json);
+      return json.response;
+    },
+  });
+}
+
+/** Add the editor-facing functions to a provider's requests */
+function createProvider(
+  config: ProviderConfig,
+  requests: Pick<AiProvider, "chat" | "fim">,
+): AiProvider {
+  const messages = config.messages ?? editMessages;
+  return {
+    ...requests,
+    complete: (opts) =>
+      opts.fim
+        ? requests.fim(opts.codeBefore, opts.codeAfter, { signal: opts.signal })
+        : requests.chat(opts.messages ?? messages(opts), { signal: opts.signal, n: opts.n }),
+    fetchFn: (state, signal) => {
+      const { head } = state.selection.main;
+      return requests.fim(state.sliceDoc(0, head), state.sliceDoc(head), { signal });
+    },
+  };
+}
+
+/**
+ * Post a JSON body, throwing an `AiError` when the request can't be
+ * sent or the API answers with an error. Aborts are thrown as is.
+ */
+async function post(
+  config: ProviderConfig,
+  url: string,
+  headers: Record<string, string>,
+  signal: AbortSignal | undefined,
+  body: Record<string, unknown>,
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await (config.fetch ?? fetch)(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers, ...config.headers },
+      body: JSON.stringify({ ...body, ...config.body }),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted || isAbortError(error)) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new AiError(message, "network", { cause: error });
+  }
+  if (!response.ok) throw await responseError(response);
+  return response;
+}
+
+/** An error for a response with an error status, with the message the API gave */
+async function responseError(response: Response): Promise<AiError> {
+  const { status } = response;
+  let message = `Request failed with status ${status}`;
+  try {
+    message = errorMessage(JSON.parse(await response.text())) ?? message;
+  } catch {
+    // Not JSON, so there's no message to take
+  }
+  return new AiError(message, statusCategory(status), { cause: response });
+}
+
+function statusCategory(status: number): AiErrorCategory {
+  // 529 is Anthropic's "overloaded"
+  if (status === 429 || status === 529) return "rate-limit";
+  if (status === 408 || status === 504) return "timeout";
+  if (status >= 500) return "network";
+  return "unknown";
+}
+
+/** The message of an error body, in the shape of any of the APIs */
+function errorMessage(body: unknown): string | undefined {
+  const { error, message } = (body ?? {}) as { error?: unknown; message?: unknown };
+  if (typeof error === "string") return error;
+  const nested = (error as { message?: unknown } | undefined)?.message;
+  if (typeof nested === "string") return nested;
+  return typeof message === "string" ? message : undefined;
+}
+
+async function readJson(response: Response): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new AiError("The response isn't valid JSON", "invalid-output", { cause: error });
+  }
+}
+
+function invalidOutput(body: unknown) {
+  return new AiError("The response has no answer", "invalid-output", { cause: body });
+}
+
+interface OpenAiChunk {
+  choices?: Array<{
+    message?: { content?: string };
+    delta?: { content?: string };
+    text?: string;
+  }>;
+  error?: { message?: string };
+}
+
+interface AnthropicMessage {
+  content?: Array<{ type: string; text: string }>;
+}
+
+interface AnthropicEvent {
+  type?: string;
+  delta?: { type?: string; text?: string };
+  error?: { type?: string; message?: string };
+}
+
+interface OllamaLine {
+  message?: { content?: string };
+  response?: string;
+  error?: string;
+}
+
+/** The text of an OpenAI-style server-sent event stream */
+async function* openAiStream(
+  response: Response,
+  text: (chunk: OpenAiChunk) => string | undefined,
+): AsyncGenerator<string> {
+  for await (const { data } of serverSentEvents(response)) {
+    if (data === "[DONE]") return;
+    const chunk = parseChunk(data) as OpenAiChunk;
+    if (chunk.error) throw new AiError(errorMessage(chunk) ?? "Stream error", "unknown");
+    const delta = text(chunk);
+    if (delta) yield delta;
+  }
+}
+
+/** The text of an Anthropic server-sent event stream */
+async function* anthropicStream(response: Response): AsyncGenerator<string> {
+  for await (const { data } of serverSentEvents(response)) {
+    const event = parseChunk(data) as AnthropicEvent;
+    if (event.type === "error") {
+      const overloaded = event.error?.type === "overloaded_error";
+      throw new AiError(
+        event.error?.message ?? "Stream error",
+        overloaded ? "rate-limit" : "unknown",
+      );
+    }
+    if (event.type === "message_stop") return;
+    if (event.type === "content_block_delta" && event.delta?.text) yield event.delta.text;
+  }
+}
+
+/** The text of an Ollama stream, which has one JSON object per line */
+async function* ollamaStream(
+  response: Response,
+  text: (line: OllamaLine) => string | undefined,
+): AsyncGenerator<string> {
+  for await (const line of lines(response)) {
+    if (!line.trim()) continue;
+    const chunk = parseChunk(line) as OllamaLine & { done?: boolean };
+    if (chunk.error) throw new AiError(chunk.error, "unknown");
+    const delta = text(chunk);
+    if (delta) yield delta;
+    if (chunk.done) return;
+  }
+}
+
+function parseChunk(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    throw new AiError("The stream has invalid JSON", "invalid-output", { cause: error });
+  }
+}
+
+/** The events of a server-sent event stream, as their data */
+async function* serverSentEvents(response: Response): AsyncGenerator<{ data: string }> {
+  let data: string[] = [];
+  for await (const line of lines(response)) {
+    if (!line) {
+      if (data.length) yield { data: data.join("\n") };
+      data = [];
+    } else if (line.startsWith("data:")) {
+      data.push(line.slice(line.startsWith("data: ") ? 6 : 5));
+    }
+    // Comments and other fields aren't needed
+  }
+  if (data.length) yield { data: data.join("\n") };
+}
+
+/** The lines of a response body, decoded as they come in */
+async function* lines(response: Response): AsyncGenerator<string> {
+  if (!response.body) throw new AiError("The response has no body", "invalid-output");
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of iterateStream(response.body)) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const complete = buffer.split(/\r?\n/);
+    buffer = complete.pop() ?? "";
+    yield* complete;
+  }
+  buffer += decoder.decode();
+  if (buffer) yield buffer;
+}
@@ -0,0 +1,146 @@
+import { AiError, type AiErrorCategory } from "./errors.js";
+import type { AiOptions } from "./state.js";
+import { isAbortError, iterateStream } from "./utils.js";
+
+/** When to give up on an AI request, and whether to try it again */
+export interface RequestPolicy {
+  /**
+   * Milliseconds to wait for a result before failing with a
+   * `"timeout"` error, or 0 to wait forever. For a stream, that's
+   * until its first chunk; once it has started coming in, it's read
+   * to its end.
+   */
+  timeout?: number;
+  /** How many times to try again after a retryable error */
+  retries?: number;
+  /** Milliseconds before the first retry, doubled before each one after it */
+  retryDelay?: number;
+  /** Which errors are retryable */
+  retryOn?: AiErrorCategory[];
+}
+
+const DEFAULT_RETRY_DELAY = 500;
+const RETRYABLE: AiErrorCategory[] = ["network", "timeout", "rate-limit"];
+
+/** The policy for inline edit requests, from the options */
+export function editRequestPolicy(options: AiOptions): RequestPolicy {
+  return { timeout: 60_000, retries: 2, ...options.requestPolicy };
+}
+
+/**
+ * Run a request, following a policy. The request gets a signal that
+ * aborts when `signal` does or when it times out. Errors other than
+ * aborts are thrown as an `AiError`, once there are no retries left.
+ */
+export async function runRequest<T>(
+  request: (signal: AbortSignal) => T | Promise<T>,
+  policy: RequestPolicy,
+  signal?: AbortSignal,
+): Promise<T> {
+  const {
+    timeout = 0,
+    retries = 0,
+    retryDelay = DEFAULT_RETRY_DELAY,
+    retryOn = RETRYABLE,
+  } = policy;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await attemptRequest(request, timeout, signal);
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) throw error;
+      const aiError = AiError.from(error);
+      if (attempt >= retries || !retryOn.includes(aiError.category)) throw aiError;
+      await sleep(retryDelay * 2 ** attempt, signal);
+    }
+  }
+}
+
+/**
+ * Run a request once, until its result or the first chunk of the
+ * stream it returned is in. The request's signal stays tied to
+ * `signal` until then, or until the stream ends, so that it can still
+ * be aborted.
+ */
+function attemptRequest<T>(
+  request: (signal: AbortSignal) => T | Promise<T>,
+  timeout: number,
+  signal: AbortSignal | undefined,
+): Promise<T> {
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) abort();
+  else signal?.addEventListener("abort", abort, { once: true });
+
+  return new Promise<T>((resolve, reject) => {
+    // Requests that ignore their signal are given up on all the same
+    const onAbort = () => reject(controller.signal.reason);
+    if (controller.signal.aborted) return onAbort();
+    controller.signal.addEventListener("abort", onAbort, { once: true });
+    const timer =
+      timeout > 0
+        ? setTimeout(() => {
+            controller.abort(new DOMException(`Timed out after ${timeout}ms`, "TimeoutError"));
+          }, timeout)
+        : undefined;
+
+    const release = () => signal?.removeEventListener("abort", abort);
+    Promise.resolve()
+      .then(() => request(controller.signal))
+      .then((result) => firstChunk(result, release))
+      .then(resolve, (error) => {
+        release();
+        reject(error);
+      })
+      .finally(() => {
+        clearTimeout(timer);
+        controller.signal.removeEventListener("abort", onAbort);
+      });
+  });
+}
+
+/**
+ * Wait for the first chunk of a streamed result, so that a stream that
+ * never starts times out like any other request. Other results are
+ * returned as they are. `onEnd` is called once the result is in, or
+ * for a stream, once it has ended.
+ */
+async function firstChunk<T>(result: T, onEnd: () => void): Promise<T> {
+  if (!isStream(result)) {
+    onEnd();
+    return result;
+  }
+  const chunks = iterateStream(result);
+  const first = await chunks.next();
+  return (async function* () {
+    try {
+      if (first.done) return;
+      yield first.value;
+      yield* chunks;
+    } finally {
+      onEnd();
+    }
+  })() as T;
+}
+
+function isStream(value: unknown): value is AsyncIterable<unknown> | ReadableStream<unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  return (
+    Symbol.asyncIterator in value ||
+    (typeof ReadableStream !== "undefined" && value instanceof ReadableStream)
+  );
+}
+
+/** Wait, unless `signal` aborts first */
+function sleep(ms: number, signal: AbortSignal | undefined) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,125 @@
+import { syntaxTree } from "@codemirror/language";
+import type { EditorState } from "@codemirror/state";
+import { type ContextBudget, windowContext } from "./context-window.js";
+import type { ContextPolicy, SlashCommand } from "./state.js";
+
+/**
+ * Commands offered in the prompt input by default
+ */
+export const defaultSlashCommands: SlashCommand[] = [
+  {
+    id: "doc",
+    description: "Add documentation",
+    template:
+      "Add documentation comments to this code, following the conventions of the language. {input}",
+    context: "function",
+  },
+  {
+    id: "fix",
+    description: "Fix bugs",
+    template: "Fix any bugs in this code, without changing what it is meant to do. {input}",
+    context: "function",
+  },
+  {
+    id: "tests",
+    description: "Write tests",
+    template: "Write tests for this code. {input}",
+    context: "file",
+  },
+  {
+    id: "types",
+    description: "Add type annotations",
+    template: "Add type annotations to this code. {input}",
+    context: "file",
+  },
+];
+
+/** A prompt written with a slash command */
+export interface SlashCommandInvocation {
+  command: SlashCommand;
+  /** Anything typed after the command */
+  input: string;
+}
+
+/**
+ * Find the command a prompt like `/doc keep it short` starts with.
+ * Returns null when it doesn't start with a known command.
+ */
+export function parseSlashCommand(
+  prompt: string,
+  commands: readonly SlashCommand[],
+): SlashCommandInvocation | null {
+  const match = /^\/([\w-]+)(?:\s+([\s\S]*))?$/.exec(prompt.trim());
+  if (!match) return null;
+  const command = commands.find((command) => command.id === match[1]);
+  if (!command) return null;
+  return { command, input: match[2]?.trim() ?? "" };
+}
+
+/** The prompt a slash command expands into */
+export function expandSlashCommand({ command, input }: SlashCommandInvocation): string {
+  if (typeof command.template === "function") {
+    return command.template(input);
+  }
+  if (command.template.includes("{input}")) {
+    return command.template.replaceAll("{input}", input).trim();
+  }
+  return input ? `${command.template}\n${input}` : command.template;
+}
+
+/**
+ * The code around `from..to` to send along with a prompt,
+ * following the given context policy, and trimmed to the
+ * budget if there is one
+ */
+export function promptContext(
+  state: EditorState,
+  from: number,
+  to: number,
+  policy: ContextPolicy = "file",
+  budget?: ContextBudget,
+): { codeBefore: string; codeAfter: string } {
+  const region = contextRegion(state, from, to, policy);
+  if (budget) {
+    return windowContext(
+      state,
+      { from: region.from, to: from },
+      { from: to, to: region.to },
+      budget,
+    );
+  }
+  return {
+    codeBefore: state.sliceDoc(region.from, from),
+    codeAfter: state.sliceDoc(to, region.to),
+  };
+}
+
+/** The part of the document that a context policy sends around `from..to` */
+function contextRegion(state: EditorState, from: number, to: number, policy: ContextPolicy) {
+  switch (policy) {
+    case "selection":
+      return { from, to };
+    case "function": {
+      const fn = enclosingFunction(state, from, to);
+      if (fn) return { from: fn.from, to: fn.to };
+      break;
+    }
+  }
+  return { from: 0, to: state.doc.length };
+}
+
+/**
+ * The innermost function-like syntax node that contains `from..to`,
+ * going by the node names used in the lezer grammars
+ * (FunctionDefinition, ArrowFunction, MethodDeclaration...)
+ */
+function enclosingFunction(state: EditorState, from: number, to: number) {
+  let node = syntaxTree(state).resolveInner(from, 1);
+  for (;;) {
+    if (node.from <= from && node.to >= to && /Function|Method|Lambda/.test(node.type.name)) {
+      return node;
+    }
+    if (!node.parent) return null;
+    node = node.parent;
+  }
+}
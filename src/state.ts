@@ -1,5 +1,27 @@
-import { Facet, StateEffect, StateField, combineConfig } from "@codemirror/state";
+import {
+  type ChangeDesc,
+  type EditorState,
+  Facet,
+  StateEffect,
+  StateField,
+  type Transaction,
+  combineConfig,
+} from "@codemirror/state";
 import type { EditorView } from "@codemirror/view";
+import type { PostProcessor } from "./post-process.js";
+import type { RequestPolicy } from "./request-runner.js";
+
+/** A previous instruction, and the code that was proposed for it */
+export interface EditTurn {
+  prompt: string;
+  response: string;
+}
+
+/** A message of a chat with a model */
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
 
 export interface CreateEditOpts {
   prompt: string;
@@ -8,14 +30,147 @@ export interface CreateEditOpts {
   codeBefore: string;
   codeAfter: string;
   signal?: AbortSignal;
+  /**
+   * Earlier turns of the conversation, oldest first, when refining
+   * a pending edit with a follow-up instruction. The last turn's
+   * response is the proposal being refined.
+   */
+  history?: EditTurn[];
+  /**
+   * Number of alternative proposals wanted, from the `candidates`
+   * option. Return that many strings to offer them all.
+   */
+  n?: number;
+  /**
+   * Id of the slash command the prompt was written with, if any.
+   * `prompt` is then the command's expanded template.
+   */
+  command?: string;
+  /**
+   * Material attached to the prompt by mentioning context
+   * providers, like `@readme`, in the order they were mentioned
+   */
+  context?: ContextItem[];
+  /** The language of the code being edited */
+  language?: LanguageInfo;
+  /**
+   * The syntax errors found in the proposal being repaired, which is
+   * the last turn of `history`, when asking for a repair
+   */
+  syntaxErrors?: SyntaxIssue[];
+  /**
+   * The prompt as chat messages, set by `aiAutocomplete` outside of
+   * FIM mode: the messages a template wrote, with their contents one
+   * after the other in `prompt`, or else `prompt` as a user message.
+   */
+  messages?: ChatMessage[];
+  /**
+   * Set for fill-in-the-middle requests, from `aiAutocomplete` in FIM
+   * mode. `codeBefore` and `codeAfter` are then the exact code before
+   * and after the cursor, `prompt` has them between the sentinel
+   * tokens, and the answer is the code to insert.
+   */
+  fim?: boolean;
+}
+
+/** A syntax error found in proposed code */
+export interface SyntaxIssue {
+  /** Line of the proposed code it's on, starting at 1 */
+  line: number;
+  /** Column on that line, starting at 1 */
+  column: number;
+  /** The text of that line */
+  text: string;
+}
+
+/**
+ * What is known about the language of the code being edited,
+ * from the editor's language support
+ */
+export interface LanguageInfo {
+  /** Name of the active language, like `"python"`, if one is set up */
+  name?: string;
+  /** The indentation unit, like `"    "` or `"\t"` */
+  indentUnit: string;
+  /** The line comment token, like `"#"` or `"//"`, if the language has one */
+  lineComment?: string;
+  /**
+   * Types of the syntax nodes enclosing the selection, innermost
+   * first, like `["Body", "FunctionDefinition"]`
+   */
+  enclosingNodes: string[];
+}
+
+/**
+ * How much of the document around the edited lines is sent
+ * as `codeBefore` and `codeAfter`:
+ * - `"file"`: the rest of the document
+ * - `"function"`: the rest of the innermost function containing
+ *   the edited lines, or the rest of the document outside of one
+ * - `"selection"`: nothing
+ */
+export type ContextPolicy = "file" | "function" | "selection";
+
+/**
+ * A named action, like `/doc`, that expands into a full prompt
+ */
+export interface SlashCommand {
+  /** Name typed after the slash */
+  id: string;
+  /** Shown next to the name in the command list */
+  description?: string;
+  /**
+   * The prompt to send. `{input}` is replaced with anything typed
+   * after the command; without it, that text is appended.
+   */
+  template: string | ((input: string) => string);
+  /** Context to send with the prompt. Defaults to `"file"` */
+  context?: ContextPolicy;
+}
+
+/**
+ * Something the host can attach to a prompt, like other open files or
+ * the project README. It's mentioned in the prompt input as `@id`.
+ */
+export interface ContextProvider {
+  /** Name typed after the `@` */
+  id: string;
+  /** Shown next to the name in the provider list */
+  description?: string;
+  /** Fetch the material to attach, once the prompt is submitted */
+  resolve: (opts: { editorView: EditorView; signal?: AbortSignal }) => string | Promise<string>;
 }
 
-export type CompleteFunction = (opts: CreateEditOpts) => Promise<string>;
+/** Material from a {@link ContextProvider}, as sent with a prompt */
+export interface ContextItem {
+  /** Id of the provider */
+  id: string;
+  content: string;
+}
+
+/** See {@link AiOptions.editRange} */
+export type EditRangeMode = "lines" | "selection";
+
+/**
+ * What a {@link CompleteFunction} may produce: either the whole
+ * replacement at once, several alternative replacements to choose
+ * from, or a stream of chunks that are appended to the document
+ * as they arrive.
+ */
+export type CompletionResult = string | string[] | AsyncIterable<string> | ReadableStream<string>;
+
+export type CompleteFunction = (
+  opts: CreateEditOpts,
+) => CompletionResult | Promise<CompletionResult>;
 
 export interface AiOptions {
   /** Function to generate completions */
   prompt: CompleteFunction;
-  /** Called when an error occurs during completion */
+  /**
+   * Called when an error occurs during completion, with an `AiError`
+   * whose `category` tells what went wrong. Errors from inline edits
+   * are also shown in the prompt input, with a button to retry.
+   */
   onError?: (error: Error) => void;
   logger?: typeof console;
   /** Called when user accepts an edit */
@@ -24,11 +179,102 @@ export interface AiOptions {
   onRejectEdit?: (opts: CreateEditOpts) => void;
   /** Debounce time in ms for input handling */
   inputDebounceTime?: number;
+  /**
+   * Where to persist the prompt history. By default it's only kept in
+   * memory, in `inputValueState`. Pass the same storage to several
+   * editors to share their history.
+   */
+  promptHistory?: PromptHistoryStorage;
+  /** Maximum number of prompts to remember */
+  promptHistoryLimit?: number;
+  /**
+   * Commands offered when typing `/` in the prompt input.
+   * Defaults to `defaultSlashCommands`; pass an empty array to
+   * turn them off.
+   */
+  slashCommands?: SlashCommand[];
+  /**
+   * Context providers that can be mentioned in the prompt input with
+   * `@`. More can be registered with the `contextProviders` facet.
+   */
+  contextProviders?: ContextProvider[];
+  /**
+   * Maximum size of the code sent around an edit, as `codeBefore` and
+   * `codeAfter` together: in characters, or in tokens as counted by
+   * `countTokens`. The code closest to the edit is kept, cut between
+   * whole functions and blocks, along with the imports at the top of
+   * the file. By default, all of it is sent.
+   */
+  contextBudget?: number;
+  /** Count the tokens in a text, to measure `contextBudget` in tokens */
+  countTokens?: (text: string) => number;
+  /**
+   * Steps that clean up the code a model returns before it's shown,
+   * in order. Defaults to `defaultPostProcessors`, which take the code
+   * out of Markdown code blocks and the prose around it, indent it like
+   * the code it replaces and end it with a line break only if that
+   * code ends with one. Streamed code
+   * is cleaned up once the stream ends. Pass an empty array to use the
+   * code as is.
+   */
+  postProcessors?: readonly PostProcessor[];
+  /**
+   * Check proposed code for syntax errors with the editor's language,
+   * once it has all come in. The errors are shown in the pending edit,
+   * with a button to ask for a repair; with `"repair"`, one is asked
+   * for right away, once per proposal. Off by default.
+   */
+  validateSyntax?: boolean | "repair";
+  /**
+   * Timeout and retries for edit requests. By default a request times
+   * out after 60 seconds, and is tried twice more after network errors,
+   * timeouts and rate limiting.
+   */
+  requestPolicy?: RequestPolicy;
+  /**
+   * How many alternative proposals to ask for (as `n`). Defaults to 1.
+   * When `prompt` returns several, they can be cycled through before
+   * accepting one.
+   */
+  candidates?: number;
+  /**
+   * What part of the document an edit replaces: the selected lines
+   * in full (`"lines"`, the default), or exactly the selected text
+   * (`"selection"`), for edits to part of a line.
+   */
+  editRange?: EditRangeMode;
+  /**
+   * Show proposed code as a preview next to the current code, and
+   * only write it to the document when the edit is accepted. By
+   * default it's written to the document right away, and rejecting
+   * the edit puts the old code back.
+   */
+  preview?: boolean;
   /** Custom keymaps */
   keymaps?: {
+    /** Open the prompt for the selected lines */
     showInput?: string;
+    /**
+     * Open the prompt for the selected lines, or at the cursor to
+     * insert new code when nothing is selected
+     */
+    insertAtCursor?: string;
     acceptEdit?: string;
     rejectEdit?: string;
+    /** Accept the hunk of the edit at the cursor */
+    acceptHunk?: string;
+    /** Reject the hunk of the edit at the cursor */
+    rejectHunk?: string;
+    nextHunk?: string;
+    previousHunk?: string;
+    /** Accept all pending edits, when a prompt was applied to several selections */
+    acceptAllEdits?: string;
+    /** Reject all pending edits */
+    rejectAllEdits?: string;
+    /** Show the next alternative proposal */
+    nextCandidate?: string;
+    /** Show the previous alternative proposal */
+    previousCandidate?: string;
   };
 }
 
@@ -37,11 +283,30 @@ export interface AiOptions {
  */
 export const defaultKeymaps = {
   showInput: "@",
+  insertAtCursor: "Mod-k",
   acceptEdit: "Mod-y",
   rejectEdit: "Mod-u",
+  acceptHunk: "Mod-Shift-y",
+  rejectHunk: "Mod-Shift-u",
+  nextHunk: "Mod-Alt-ArrowDown",
+  previousHunk: "Mod-Alt-ArrowUp",
+  acceptAllEdits: "Mod-Alt-y",
+  rejectAllEdits: "Mod-Alt-u",
+  nextCandidate: "Alt-]",
+  previousCandidate: "Alt-[",
 };
 
+/**
+ * Storage adapter for the prompt history. Prompts are
+ * ordered from most to least recently used.
+ */
+export interface PromptHistoryStorage {
+  load(): string[] | Promise<string[]>;
+  save(history: string[]): void | Promise<void>;
+}
+
 const DEFAULT_DEBOUNCE_TIME = 300;
+const DEFAULT_PROMPT_HISTORY_LIMIT = 50;
 
 /**
  * Facet for options
@@ -53,6 +318,8 @@ export const optionsFacet = Facet.define<AiOptions, AiOptions>({
       {
         onError: console.error,
         inputDebounceTime: DEFAULT_DEBOUNCE_TIME,
+        promptHistoryLimit: DEFAULT_PROMPT_HISTORY_LIMIT,
+        editRange: "lines",
         keymaps: defaultKeymaps,
       },
       {
@@ -63,20 +330,52 @@ export const optionsFacet = Facet.define<AiOptions, AiOptions>({
         // @ts-expect-error TS2774
         onError: (a, b) => a && b,
         inputDebounceTime: (a, b) => a && b,
+        promptHistoryLimit: (a, b) => a && b,
+        editRange: (a, b) => a && b,
         keymaps: (a, b) => a && b,
       },
     ),
 });
 
+/**
+ * Facet with the context providers that can be mentioned in the prompt
+ * input. `aiExtension` adds those from its options; other extensions
+ * can register more.
+ */
+export const contextProviders = Facet.define<ContextProvider>();
+
 export interface InputState {
   show: boolean;
   lineFrom: number;
   lineTo: number;
+  /**
+   * The exact range the result replaces, when it isn't the whole
+   * lines `lineFrom`..`lineTo`: the selection in `"selection"`
+   * edit range mode, or an empty range at the cursor when
+   * inserting new code.
+   */
+  range?: { from: number; to: number };
+  /**
+   * The ranges of the other selections, when the prompt applies
+   * to several. Like `range`, the results replace them exactly
+   * (they are already widened to whole lines if needed).
+   */
+  others?: Array<{ from: number; to: number }>;
+  /**
+   * Whether the code the prompt applies to was changed by something
+   * else (another user, a formatter...) while a request for it was
+   * in flight. The request is then dropped.
+   */
+  conflict?: boolean;
 }
 
 export interface InputValueState {
   shouldFocus: boolean;
   inputValue: string;
+  /** Previously submitted prompts, most recent first */
+  history: string[];
+  /** Ids of the context providers mentioned in the input */
+  mentions: string[];
 }
 
 export interface CompletionState {
@@ -84,6 +383,44 @@ export interface CompletionState {
   to: number;
   oldCode: string;
   newCode: string;
+  /** Whether the new code is still being streamed in */
+  streaming?: boolean;
+  /** The instruction that produced the new code */
+  prompt?: string;
+  /** Turns before the one that produced the new code */
+  history?: EditTurn[];
+  /** Material attached to the instruction, sent again with follow-ups */
+  context?: ContextItem[];
+  /** Whether a follow-up instruction is being processed */
+  refining?: boolean;
+  /** Alternative proposals, when more than one was returned */
+  candidates?: string[];
+  /** Index of the proposal in `candidates` shown as the new code */
+  candidate?: number;
+  /**
+   * Identifies one of several pending edits, made by applying
+   * a prompt to several selections
+   */
+  id?: number;
+  /**
+   * Whether the code of the edit was changed by something else while
+   * it was pending. Its old code can't be put back in the right place
+   * then, so the edit can only be dismissed.
+   */
+  conflict?: boolean;
+  /**
+   * Whether the new code is only shown as a preview, with the old
+   * code still in the document at `from`..`to` (see
+   * {@link AiOptions.preview})
+   */
+  preview?: boolean;
+  /**
+   * The code the document had before the edit, once some of its
+   * hunks were accepted (which makes them part of `oldCode`)
+   */
+  baseCode?: string;
+  /** Whether the new code is a repair of syntax errors, which isn't repaired again by itself */
+  repaired?: boolean;
 }
 
 /**
@@ -92,7 +429,8 @@ export interface CompletionState {
 export const showInput = StateEffect.define<InputState>();
 
 /**
- * State field to manage the input visibility and position
+ * State field to manage the input visibility and position.
+ * The position is mapped through changes made elsewhere.
  */
 export const inputState = StateField.define<InputState>({
   create() {
@@ -104,10 +442,64 @@ export const inputState = StateField.define<InputState>({
         return e.value;
       }
     }
-    return value;
+    return value.show && tr.docChanged ? mapInput(value, tr) : value;
   },
 });
 
+function mapInput(input: InputState, tr: Transaction): InputState {
+  const { changes, startState, state } = tr;
+  // The exact range, or the selected lines in full
+  const range = input.range ?? {
+    from: startState.doc.line(input.lineFrom).from,
+    to: startState.doc.line(input.lineTo).to,
+  };
+  const conflict =
+    input.conflict ||
+    (startState.field(loadingState, false) === true &&
+      [range, ...(input.others ?? [])].some((target) => changedWithin(changes, target)));
+
+  const mapped = mapRange(range, changes);
+  const others = input.others?.map((other) => mapRange(other, changes));
+  const lineFrom = state.doc.lineAt(mapped.from).number;
+  const lineTo = state.doc.lineAt(mapped.to).number;
+  if (
+    (!input.range || mapped === input.range) &&
+    others?.every((other, i) => other === input.others?.[i]) !== false &&
+    lineFrom === input.lineFrom &&
+    lineTo === input.lineTo &&
+    conflict === Boolean(input.conflict)
+  ) {
+    return input;
+  }
+  return {
+    ...input,
+    lineFrom,
+    lineTo,
+    range: input.range && mapped,
+    others,
+    conflict: conflict || undefined,
+  };
+}
+
+/**
+ * Map a range through changes. Text inserted right at either end
+ * is left outside of it.
+ */
+function mapRange(range: { from: number; to: number }, changes: ChangeDesc) {
+  const from = changes.mapPos(range.from, 1);
+  const to = Math.max(from, changes.mapPos(range.to, -1));
+  return from === range.from && to === range.to ? range : { from, to };
+}
+
+/** Whether the changes replace or insert text within a range */
+function changedWithin(changes: ChangeDesc, { from, to }: { from: number; to: number }) {
+  let changed = false;
+  changes.iterChangedRanges((fromA, toA) => {
+    changed ||= fromA < to && toA > from;
+  });
+  return changed;
+}
+
 /**
  * State effect to set the input value
  */
@@ -118,11 +510,25 @@ export const setInputValue = StateEffect.define<string>();
 export const setInputFocus = StateEffect.define<boolean>();
 
 /**
- * State field for the input focus and value
+ * State effect to replace the prompt history, e.g. to
+ * sync it from another editor
+ */
+export const setPromptHistory = StateEffect.define<string[]>();
+/**
+ * State effect to add a submitted prompt to the front of the history
+ */
+export const addPromptToHistory = StateEffect.define<string>();
+/**
+ * State effect to set the context providers mentioned in the input
+ */
+export const setInputMentions = StateEffect.define<string[]>();
+
+/**
+ * State field for the input focus and value, and the prompt history
  */
 export const inputValueState = StateField.define<InputValueState>({
   create() {
-    return { shouldFocus: false, inputValue: "" };
+    return { shouldFocus: false, inputValue: "", history: [], mentions: [] };
   },
   update(value, tr) {
     let updated = value;
@@ -133,33 +539,110 @@ export const inputValueState = StateField.define<InputValueState>({
       if (e.is(setInputFocus)) {
         updated = { ...updated, shouldFocus: e.value };
       }
+      if (e.is(setPromptHistory)) {
+        updated = { ...updated, history: e.value };
+      }
+      if (e.is(setInputMentions)) {
+        updated = { ...updated, mentions: e.value };
+      }
+      if (e.is(addPromptToHistory)) {
+        const limit =
+          tr.state.facet(optionsFacet).promptHistoryLimit ?? DEFAULT_PROMPT_HISTORY_LIMIT;
+        const history = [e.value, ...updated.history.filter((prompt) => prompt !== e.value)];
+        updated = { ...updated, history: history.slice(0, limit) };
+      }
     }
     return updated;
   },
 });
 
 /**
- * State effect to show/hide the completion
+ * State effect to show/hide the completion. A completion with an
+ * `id` is added to the pending edits, or replaces the one with the
+ * same id; one without replaces all of them. `null` clears them.
  */
 export const showCompletion = StateEffect.define<CompletionState | null>();
 
 /**
- * State field to manage the completion
+ * State effect to drop one of several pending edits, by id
  */
-export const completionState = StateField.define<CompletionState | null>({
+export const removeCompletion = StateEffect.define<number>();
+
+/**
+ * State effect to put back the pending edits as they were, when
+ * accepting or rejecting them is undone (or redone)
+ */
+export const restoreCompletions = StateEffect.define<readonly CompletionState[]>({
+  map: (edits, changes) => edits.map((edit) => mapCompletion(edit, changes, true)),
+});
+
+/**
+ * State field holding all pending edits, in document order. There
+ * is more than one when a prompt was applied to several selections.
+ * Their ranges are mapped through changes made elsewhere.
+ */
+export const completionsState = StateField.define<readonly CompletionState[]>({
   create() {
-    return null;
+    return [];
   },
   update(value, tr) {
+    // Changes that come with new pending edits are the edits' own
+    const own = tr.effects.some(
+      (e) => e.is(showCompletion) || e.is(removeCompletion) || e.is(restoreCompletions),
+    );
+    let edits = tr.docChanged ? value.map((edit) => mapCompletion(edit, tr.changes, own)) : value;
     for (const e of tr.effects) {
       if (e.is(showCompletion)) {
-        return e.value;
+        const edit = e.value;
+        if (edit?.id === undefined) {
+          edits = edit ? [edit] : [];
+        } else {
+          edits = [...edits.filter((other) => other.id !== edit.id), edit].sort(
+            (a, b) => a.from - b.from,
+          );
+        }
+      }
+      if (e.is(removeCompletion)) {
+        edits = edits.filter((edit) => edit.id !== e.value);
+      }
+      if (e.is(restoreCompletions)) {
+        edits = e.value;
       }
     }
-    return value;
+    return edits;
+  },
+});
+
+function mapCompletion(edit: CompletionState, changes: ChangeDesc, own: boolean): CompletionState {
+  const { from, to } = mapRange(edit, changes);
+  if (!own && !edit.conflict && changedWithin(changes, edit)) {
+    // Whatever was streaming in or being refined is dropped
+    return { ...edit, from, to, conflict: true, streaming: false, refining: false };
+  }
+  return from === edit.from && to === edit.to ? edit : { ...edit, from, to };
+}
+
+/**
+ * State field with the pending edit at the cursor, or the first
+ * one if the cursor isn't in any. This is the edit that commands
+ * like `acceptAiEdit` act on.
+ */
+export const completionState = StateField.define<CompletionState | null>({
+  create(state) {
+    return completionAtCursor(state);
+  },
+  update(_value, tr) {
+    return completionAtCursor(tr.state);
   },
+  provide: () => completionsState,
 });
 
+function completionAtCursor(state: EditorState) {
+  const edits = state.field(completionsState);
+  const { head } = state.selection.main;
+  return edits.find((edit) => edit.from <= head && head <= edit.to) ?? edits[0] ?? null;
+}
+
 /**
  * State effect and field for loading status
  */
@@ -0,0 +1,86 @@
+import { language } from "@codemirror/language";
+import { type EditorState, StateField } from "@codemirror/state";
+import { type CompletionState, type SyntaxIssue, completionsState, optionsFacet } from "./state.js";
+
+/** The syntax errors found in the new code of a pending edit */
+interface CheckedEdit {
+  from: number;
+  newCode: string;
+  issues: SyntaxIssue[];
+}
+
+/**
+ * The syntax errors in the new code of each pending edit, when
+ * `validateSyntax` is on. An edit is only checked again when its code
+ * changes, and not while it's streaming in.
+ */
+export const syntaxCheckState = StateField.define<CheckedEdit[]>({
+  create: () => [],
+  update(checked, tr) {
+    if (!tr.state.facet(optionsFacet).validateSyntax) return [];
+    const edits = tr.state.field(completionsState);
+    if (!tr.docChanged && edits === tr.startState.field(completionsState)) return checked;
+    const mapped = checked.map((edit) => ({ ...edit, from: tr.changes.mapPos(edit.from) }));
+    return edits
+      .filter((edit) => !edit.streaming)
+      .map(
+        (edit) =>
+          mapped.find((other) => other.from === edit.from && other.newCode === edit.newCode) ?? {
+            from: edit.from,
+            newCode: edit.newCode,
+            issues: findSyntaxIssues(tr.state, edit),
+          },
+      );
+  },
+});
+
+/** The syntax errors found in the new code of a pending edit */
+export function syntaxIssues(state: EditorState, edit: CompletionState): SyntaxIssue[] {
+  const checked = state.field(syntaxCheckState, false) ?? [];
+  return (
+    checked.find((other) => other.from === edit.from && other.newCode === edit.newCode)?.issues ??
+    []
+  );
+}
+
+/**
+ * Parse the document with the new code of an edit in it, and find the
+ * error nodes within that code, one per line. Nothing is found without
+ * a language.
+ */
+function findSyntaxIssues(state: EditorState, edit: CompletionState): SyntaxIssue[] {
+  const lang = state.facet(language);
+  if (!lang) return [];
+  const { from, newCode } = edit;
+  // A preview leaves the old code in the document
+  const text = edit.preview
+    ? state.sliceDoc(0, from) + newCode + state.sliceDoc(edit.to)
+    : state.doc.toString();
+  const lines = newCode.split("\n");
+  const issues: SyntaxIssue[] = [];
+  lang.parser.parse(text).iterate({
+    from,
+    to: from + newCode.length,
+    enter(node) {
+      if (!node.type.isError) return;
+      const offset = Math.min(Math.max(node.from - from, 0), newCode.length);
+      const before = newCode.slice(0, offset).split("\n");
+      const line = before.length;
+      if (issues.some((issue) => issue.line === line)) return;
+      issues.push({
+        line,
+        column: (before[line - 1]?.length ?? 0) + 1,
+        text: lines[line - 1] ?? "",
+      });
+    },
+  });
+  return issues.sort((a, b) => a.line - b.line);
+}
+
+/** The instruction sent to ask for the syntax errors to be fixed */
+export function repairInstruction(issues: readonly SyntaxIssue[]) {
+  const locations = issues.map(
+    ({ line, column, text }) => `- line ${line}, column ${column}: ${text.trim()}`,
+  );
+  return `Fix the syntax errors in the code:\n${locations.join("\n")}`;
+}
@@ -5,5 +5,10 @@ export const suggestionStyle = EditorView.baseTheme({
   ".cm-ai-suggestion": {
     opacity: "0.5",
     color: "var(--cm-ai-suggestion-color, #7aa2f7)"
+  },
+  ".cm-ai-suggestion-count": {
+    opacity: "0.5",
+    marginLeft: "0.5em",
+    fontSize: "0.85em"
   }
 });
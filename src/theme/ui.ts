@@ -32,6 +32,73 @@ export const aiTheme = EditorView.baseTheme({
       color: "var(--foreground-muted, var(--cm-foreground-muted))",
     },
   },
+  ".cm-ai-input-form": {
+    position: "relative",
+  },
+  ".cm-ai-input-suggestions": {
+    position: "absolute",
+    top: "100%",
+    left: "0",
+    right: "0",
+    zIndex: "10",
+    margin: "2px 0 0",
+    padding: "4px 0",
+    listStyle: "none",
+    maxHeight: "160px",
+    overflowY: "auto",
+    fontSize: "12px",
+    backgroundColor: "var(--background, var(--cm-background))",
+    color: "var(--foreground, var(--cm-foreground))",
+    border: "1px solid var(--border, rgba(255, 255, 255, 0.1))",
+    borderRadius: "6px",
+    boxShadow: "0 4px 12px rgba(0, 0, 0, 0.15)",
+  },
+  ".cm-ai-input-suggestion": {
+    padding: "4px 10px",
+    cursor: "pointer",
+    whiteSpace: "nowrap",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    "&:hover, &[aria-selected=true]": {
+      backgroundColor: "var(--background-higher, rgba(255, 255, 255, 0.05))",
+    },
+  },
+  ".cm-ai-input-suggestion-detail": {
+    marginLeft: "8px",
+    color: "var(--foreground-muted, var(--cm-foreground-muted))",
+  },
+  ".cm-ai-context-chips": {
+    display: "flex",
+    flexWrap: "wrap",
+    gap: "4px",
+    marginBottom: "4px",
+    "&[hidden]": {
+      display: "none",
+    },
+  },
+  ".cm-ai-context-chip": {
+    display: "inline-flex",
+    alignItems: "center",
+    gap: "2px",
+    padding: "1px 4px 1px 6px",
+    fontSize: "11px",
+    borderRadius: "10px",
+    border: "1px solid var(--border, rgba(255, 255, 255, 0.1))",
+    backgroundColor: "var(--background, var(--cm-background))",
+    color: "var(--accent-primary, var(--cm-accent))",
+  },
+  ".cm-ai-context-chip-remove": {
+    padding: "0 2px",
+    fontSize: "11px",
+    lineHeight: "1",
+    cursor: "pointer",
+    border: "none",
+    background: "none",
+    color: "var(--foreground-muted, var(--cm-foreground-muted))",
+    "&:hover": {
+      color: "var(--foreground, var(--cm-foreground))",
+    },
+  },
   ".cm-ai-help-info-button": {
     fontSize: "11px",
     padding: "4px 8px",
@@ -108,17 +175,27 @@ export const aiTheme = EditorView.baseTheme({
     padding: "0 4px",
     overflow: "hidden",
   },
-  ".cm-line:has(.cm-new-code-line)": {
+  ".cm-line.cm-new-code-line": {
     backgroundColor: "color-mix(in srgb, var(--cm-success) 15%, var(--background, var(--cm-background))) !important",
-    position: "relative",
-   
-  },
-  ".cm-new-code-line": {
-    position: "relative",
-    display: "inline-block",
-    width: "100%",
     color: "var(--success-foreground, var(--cm-success-foreground, var(--foreground)))",
-   
+  },
+  ".cm-new-code-text": {
+    backgroundColor: "color-mix(in srgb, var(--cm-success) 15%, transparent)",
+  },
+  ".cm-old-code-inline": {
+    marginRight: "2px",
+  },
+  ".cm-line.cm-old-code-line": {
+    backgroundColor: "color-mix(in srgb, var(--cm-error) 15%, var(--background, var(--cm-background))) !important",
+  },
+  ".cm-old-code-text": {
+    backgroundColor: "color-mix(in srgb, var(--cm-error) 15%, transparent)",
+  },
+  ".cm-new-code-inline": {
+    marginLeft: "2px",
+  },
+  ".cm-ai-selection-text": {
+    backgroundColor: "var(--background-higher, color-mix(in srgb, var(--cm-selection) 30%, transparent))",
   },
   ".cm-old-code-container": {
     backgroundColor: "color-mix(in srgb, var(--cm-error) 15%, var(--background, var(--cm-background)))",
@@ -131,6 +208,23 @@ export const aiTheme = EditorView.baseTheme({
     color: "var(--error-foreground, var(--cm-error-foreground, var(--foreground)))",
 
   },
+  ".cm-old-code-container.cm-new-code-container": {
+    backgroundColor: "color-mix(in srgb, var(--cm-success) 15%, var(--background, var(--cm-background)))",
+    color: "var(--success-foreground, var(--cm-success-foreground, var(--foreground)))",
+  },
+  ".cm-new-code-preview": {
+    fontFamily: "inherit",
+    fontSize: "inherit",
+    color: "var(--foreground, var(--cm-foreground))",
+    padding: "2px 0",
+    display: "inline-block",
+    width: "100%",
+  },
+  ".cm-old-code-container.cm-old-code-empty": {
+    backgroundColor: "transparent",
+    padding: "0",
+    margin: "0",
+  },
   ".cm-old-code": {
     fontFamily: "inherit",
     fontSize: "inherit",
@@ -141,42 +235,15 @@ export const aiTheme = EditorView.baseTheme({
     opacity: "0.9",
   },
   ".cm-diff-highlight-add": {
-    backgroundColor: "color-mix(in srgb, var(--cm-success) 25%, transparent)",
-    borderRadius: "3px",
-    margin: "0 -2px",
-    padding: "2px 4px",
-    position: "relative",
+    backgroundColor: "color-mix(in srgb, var(--cm-success) 35%, transparent)",
+    borderRadius: "2px",
     color: "var(--success-foreground, var(--cm-success-foreground, var(--foreground)))",
-    "&::before": {
-      content: '""',
-      position: "absolute",
-      left: "-2px",
-      top: "0",
-      bottom: "0",
-      width: "2px",
-      backgroundColor: "var(--cm-success)",
-      borderTopLeftRadius: "3px",
-      borderBottomLeftRadius: "3px",
-    },
   },
   ".cm-diff-highlight-remove": {
-    backgroundColor: "color-mix(in srgb, var(--cm-error) 25%, transparent)",
-    borderRadius: "3px",
-    margin: "0 -2px",
-    padding: "2px 4px",
-    position: "relative",
+    backgroundColor: "color-mix(in srgb, var(--cm-error) 35%, transparent)",
+    borderRadius: "2px",
+    textDecoration: "line-through",
     color: "var(--error-foreground, var(--cm-error-foreground, var(--foreground)))",
-    "&::before": {
-      content: '""',
-      position: "absolute",
-      left: "-2px",
-      top: "0",
-      bottom: "0",
-      width: "2px",
-      backgroundColor: "var(--cm-error)",
-      borderTopLeftRadius: "3px",
-      borderBottomLeftRadius: "3px",
-    },
   },
   ".cm-code-button": {
     position: "absolute",
@@ -200,6 +267,93 @@ export const aiTheme = EditorView.baseTheme({
       transform: "translateY(-50%) scale(0.98)",
     },
   },
+  ".cm-hunk-buttons": {
+    fontFamily: "var(--font-ui, system-ui, -apple-system, sans-serif)",
+    display: "flex",
+    gap: "4px",
+    marginLeft: "auto",
+    paddingLeft: "8px",
+    flex: "none",
+  },
+  ".cm-old-code-empty .cm-hunk-buttons": {
+    padding: "2px 0",
+  },
+  ".cm-ai-conflict": {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    width: "100%",
+    padding: "4px 8px",
+    fontFamily: "var(--font-ui, system-ui, -apple-system, sans-serif)",
+    fontSize: "12px",
+    color: "var(--foreground, var(--cm-foreground))",
+    backgroundColor: "color-mix(in srgb, var(--cm-error) 15%, var(--background, var(--cm-background)))",
+    borderLeft: "2px solid var(--error, var(--cm-error))"
+  },
+  ".cm-ai-conflict-message": {
+    flex: "1"
+  },
+  ".cm-ai-syntax-errors": {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    width: "100%",
+    padding: "4px 8px",
+    fontFamily: "var(--font-ui, system-ui, -apple-system, sans-serif)",
+    fontSize: "12px",
+    color: "var(--foreground, var(--cm-foreground))",
+    backgroundColor: "color-mix(in srgb, var(--cm-error) 10%, var(--background, var(--cm-background)))",
+    borderLeft: "2px solid var(--error, var(--cm-error))"
+  },
+  ".cm-ai-syntax-errors-message": {
+    flex: "1"
+  },
+  ".cm-line.cm-ai-syntax-error-line": {
+    textDecoration: "underline wavy var(--error, var(--cm-error))",
+    textDecorationSkipInk: "none",
+  },
+  ".cm-ai-input-notice": {
+    fontSize: "12px",
+    color: "var(--error, var(--cm-error))"
+  },
+  ".cm-ai-input-error": {
+    display: "flex",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: "6px",
+  },
+  ".cm-ai-input-error-message": {
+    marginRight: "auto",
+  },
+  ".cm-ai-input-error-button": {
+    fontFamily: "inherit",
+    padding: "2px 8px",
+    fontSize: "11px",
+    cursor: "pointer",
+    borderRadius: "2px",
+    border: "1px solid var(--border, rgba(255, 255, 255, 0.1))",
+    background: "var(--background-higher, rgba(255, 255, 255, 0.05))",
+    color: "var(--foreground, var(--cm-foreground))",
+  },
+  ".cm-hunk-button": {
+    fontFamily: "inherit",
+    padding: "2px 8px",
+    fontSize: "11px",
+    cursor: "pointer",
+    borderRadius: "2px",
+    border: "1px solid var(--border, rgba(255, 255, 255, 0.1))",
+    background: "var(--background-higher, rgba(255, 255, 255, 0.05))",
+    color: "var(--foreground-muted, var(--cm-foreground-muted))",
+    transition: "all 0.2s ease",
+  },
+  ".cm-hunk-accept:hover": {
+    color: "var(--success, var(--cm-success))",
+    borderColor: "var(--success, var(--cm-success))",
+  },
+  ".cm-hunk-reject:hover": {
+    color: "var(--error, var(--cm-error))",
+    borderColor: "var(--error, var(--cm-error))",
+  },
   ".cm-floating-buttons": {
     fontFamily: "var(--font-ui, system-ui, -apple-system, sans-serif)",
     position: "absolute",
@@ -237,6 +391,70 @@ export const aiTheme = EditorView.baseTheme({
       filter: "brightness(110%)"
     }
   },
+  ".cm-floating-accept-all, .cm-floating-reject-all": {
+    backgroundColor: "transparent",
+    "&:hover": {
+      backgroundColor: "var(--background-higher, rgba(255, 255, 255, 0.05))"
+    }
+  },
+  ".cm-floating-accept-all": {
+    color: "var(--success, var(--cm-success))",
+    border: "1px solid var(--success, var(--cm-success))"
+  },
+  ".cm-floating-reject-all": {
+    color: "var(--error, var(--cm-error))",
+    border: "1px solid var(--error, var(--cm-error))"
+  },
+  ".cm-ai-candidates": {
+    display: "flex",
+    alignItems: "center",
+    gap: "2px",
+    fontSize: "11px",
+    color: "var(--foreground-muted, var(--cm-foreground-muted))",
+  },
+  ".cm-ai-candidate-button": {
+    fontFamily: "inherit",
+    padding: "2px 6px",
+    cursor: "pointer",
+    border: "none",
+    borderRadius: "2px",
+    background: "transparent",
+    color: "inherit",
+    "&:hover": {
+      color: "var(--foreground, var(--cm-foreground))",
+      background: "var(--background-higher, rgba(255, 255, 255, 0.05))",
+    },
+  },
+  ".cm-ai-candidate-count": {
+    fontVariantNumeric: "tabular-nums",
+    padding: "0 2px",
+  },
+  ".cm-ai-refine-form": {
+    display: "flex",
+  },
+  ".cm-ai-refine-input": {
+    width: "220px",
+    padding: "3px 8px",
+    fontFamily: "inherit",
+    fontSize: "11px",
+    border: "none",
+    backgroundColor: "var(--background, var(--cm-background))",
+    color: "var(--foreground, var(--cm-foreground))",
+    "&:focus": {
+      outline: "none",
+      boxShadow: "inset 0 0 0 1px var(--accent-primary, var(--cm-accent))",
+    },
+    "&::placeholder": {
+      color: "var(--foreground-muted, var(--cm-foreground-muted))",
+    },
+  },
+  ".cm-floating-stop": {
+    backgroundColor: "var(--background-highest, var(--cm-background-higher))",
+    color: "var(--foreground, var(--cm-foreground))",
+    "&:hover": {
+      filter: "brightness(110%)"
+    }
+  },
   ".cm-ai-loading-indicator": {
     fontStyle: "italic",
     fontSize: "11px",
@@ -1,3 +1,5 @@
+import type { CompletionResult } from "./state.js";
+
 export function invariant(condition: boolean, message: string): asserts condition {
   if (!condition) {
     throw new Error(message);
@@ -56,3 +58,70 @@ export function debouncePromise<T extends (...args: any[]) => any>(
   };
   return wrapFunc;
 }
+
+/**
+ * Iterate over the chunks of a streamed completion. Accepts any async
+ * iterable, as well as a ReadableStream (which isn't async-iterable
+ * in every browser yet).
+ */
+export async function* iterateStream<T>(
+  stream: AsyncIterable<T> | ReadableStream<T>,
+): AsyncGenerator<T> {
+  if (Symbol.asyncIterator in stream) {
+    yield* stream as AsyncIterable<T>;
+    return;
+  }
+  const reader = (stream as ReadableStream<T>).getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    // Stops the underlying source if we exited early
+    await reader.cancel();
+  }
+}
+
+/**
+ * Resolve a completion result to a single string, draining it
+ * if it was streamed, or taking the first of several candidates.
+ */
+export async function collectCompletion(
+  result: CompletionResult | Promise<CompletionResult>,
+): Promise<string> {
+  const resolved = await result;
+  if (typeof resolved === "string") return resolved;
+  if (Array.isArray(resolved)) return resolved[0] ?? "";
+  let text = "";
+  for await (const chunk of iterateStream(resolved)) {
+    text += chunk;
+  }
+  return text;
+}
+
+/**
+ * Resolve a completion result to its candidates, draining
+ * it if it was streamed.
+ */
+export async function collectCandidates(
+  result: CompletionResult | Promise<CompletionResult>,
+): Promise<string[]> {
+  const resolved = await result;
+  return Array.isArray(resolved) ? resolved : [await collectCompletion(resolved)];
+}
+
+/** Whether an error comes from aborting a request */
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * The start of a suggestion, up to the end of its next word, or of its
+ * next line with the line break, for accepting it bit by bit
+ */
+export function suggestionPart(suggestion: string, unit: "word" | "line"): string {
+  const match = unit === "word" ? /^\s*(\w+|[^\w\s]+)/.exec(suggestion) : /^.*\n?/.exec(suggestion);
+  return match?.[0] || suggestion;
+}
@@ -1,47 +1,228 @@
+import type { EditorState } from "@codemirror/state";
 import { type EditorView, WidgetType } from "@codemirror/view";
-import { acceptAiEdit, rejectAiEdit } from "./commands.js";
+import {
+  acceptAiEdit,
+  acceptAiEditHunk,
+  acceptAllAiEdits,
+  nextAiEditCandidate,
+  previousAiEditCandidate,
+  refineAiEdit,
+  rejectAiEdit,
+  rejectAiEditHunk,
+  rejectAllAiEdits,
+  repairAiEdit,
+  stopAiEdit,
+} from "./commands.js";
+import { mentionQuery, parseMentions, resolveContext } from "./context-providers.js";
+import { contextBudget } from "./context-window.js";
+import {
+  type EditRequestResult,
+  editRequestPlugin,
+  showCompletionResult,
+  showCompletionResults,
+} from "./edit-request.js";
+import { AiError, type AiErrorCategory } from "./errors.js";
+import { type InputSuggestion, InputSuggestions } from "./input-suggestions.js";
+import { languageInfo } from "./language-info.js";
+import { editRequestPolicy, runRequest } from "./request-runner.js";
+import {
+  defaultSlashCommands,
+  expandSlashCommand,
+  parseSlashCommand,
+  promptContext,
+} from "./slash-commands.js";
 import {
   type CompleteFunction,
+  type ContextItem,
+  type SyntaxIssue,
+  addPromptToHistory,
+  completionState,
+  completionsState,
+  contextProviders,
   defaultKeymaps,
   inputState,
   inputValueState,
   loadingState,
   optionsFacet,
   setInputFocus,
+  setInputMentions,
   setInputValue,
   setLoading,
-  showCompletion,
   showInput,
 } from "./state.js";
-import { ce, formatKeymap } from "./utils.js";
+import { ce, collectCandidates, formatKeymap, isAbortError } from "./utils.js";
+
+// How many matching earlier prompts to suggest while typing
+const MAX_HISTORY_SUGGESTIONS = 5;
+
+const ERROR_MESSAGES: Record<AiErrorCategory, string> = {
+  network: "Couldn't reach the AI service. Check your connection and retry.",
+  timeout: "The AI service took too long to answer.",
+  "rate-limit": "Too many requests to the AI service. Wait a moment before retrying.",
+  "invalid-output": "The AI service didn't return usable code.",
+  unknown: "Something went wrong.",
+};
+
+/** What to tell the user about a failed request */
+function errorMessage(error: AiError) {
+  return error.category === "unknown" && error.message
+    ? error.message
+    : ERROR_MESSAGES[error.category];
+}
+
+/**
+ * An earlier prompt, a slash command or a context provider,
+ * offered in the prompt input
+ */
+interface PromptSuggestion extends InputSuggestion {
+  /** What picking the suggestion puts in the input */
+  value: string;
+  /** Id of the context provider that picking it mentions */
+  mention?: string;
+  /** Where to put the cursor after picking it, if not at the end */
+  cursor?: number;
+}
+
+/** Removed (or, in preview mode, added) lines shown by an {@link OldCodeWidget} */
+export interface OldCode {
+  text: string;
+  /** Changed words, relative to `text` */
+  words: Array<{ from: number; to: number }>;
+}
+
+export interface OldCodeWidgetOptions {
+  /** Show the accept / reject buttons for the whole edit */
+  showButtons: boolean;
+  /** Index of the hunk, to show accept / reject buttons for just that hunk */
+  hunk: number | null;
+  streaming: boolean;
+  /** Whether a follow-up instruction is being processed */
+  refining: boolean;
+  /** Which of several alternative proposals is shown */
+  candidate: { index: number; count: number } | null;
+  /** Id of the edit, when there are several pending edits */
+  edit: number | null;
+  /** Number of pending edits */
+  editCount: number;
+  /** Whether the code was changed by something else while the edit was pending */
+  conflict: boolean;
+  /** Whether the edit is a preview, with the old code still in the document */
+  preview: boolean;
+  /** Lines the hunk adds, shown by the widget when the edit is a preview */
+  newCode: OldCode | null;
+  /** Syntax errors found in the new code, with the `validateSyntax` option */
+  syntaxIssues: SyntaxIssue[];
+}
 
 /**
  * This is the accept / reject UI that shows when you've
  * gotten a recommended change and can decide on it.
  *
- * Also shows the 'old code' in red by adding
- * it manually as a div.
+ * Also shows the lines removed by one hunk of the change in red,
+ * by adding them manually as a div. The changed words within
+ * modified lines are highlighted.
  */
 export class OldCodeWidget extends WidgetType {
-  constructor(private oldCode: string) {
+  constructor(
+    private oldCode: OldCode | null,
+    private options: OldCodeWidgetOptions,
+  ) {
     super();
   }
 
+  eq(other: OldCodeWidget) {
+    return (
+      other.oldCode?.text === this.oldCode?.text &&
+      JSON.stringify(other.oldCode?.words) === JSON.stringify(this.oldCode?.words) &&
+      other.options.showButtons === this.options.showButtons &&
+      other.options.hunk === this.options.hunk &&
+      other.options.streaming === this.options.streaming &&
+      other.options.refining === this.options.refining &&
+      other.options.candidate?.index === this.options.candidate?.index &&
+      other.options.candidate?.count === this.options.candidate?.count &&
+      other.options.edit === this.options.edit &&
+      other.options.editCount === this.options.editCount &&
+      other.options.conflict === this.options.conflict &&
+      other.options.preview === this.options.preview &&
+      other.options.newCode?.text === this.options.newCode?.text &&
+      JSON.stringify(other.options.newCode?.words) ===
+        JSON.stringify(this.options.newCode?.words) &&
+      JSON.stringify(other.options.syntaxIssues) === JSON.stringify(this.options.syntaxIssues)
+    );
+  }
+
   toDOM(view: EditorView) {
     /**
      * div.cm-old-code-container
-     * -- div.cm-old-code.cm-line
-     * -- div.cm-floating-buttons
+     * -- div.cm-old-code.cm-line (if the hunk removed lines)
+     * ---- span.cm-diff-highlight-remove
+     * -- div.cm-new-code-preview.cm-line (if the hunk adds lines to a preview)
+     * ---- span.cm-diff-highlight-add
+     * -- div.cm-hunk-buttons (if there are several hunks)
+     * ---- button.cm-hunk-button.cm-hunk-accept
+     * ---- button.cm-hunk-button.cm-hunk-reject
+     * -- div.cm-ai-conflict (after a conflict, instead of the rest)
+     * ---- span.cm-ai-conflict-message
+     * ---- button.cm-floating-button.cm-ai-conflict-dismiss
+     * -- div.cm-ai-syntax-errors (first hunk only, with syntax errors)
+     * ---- span.cm-ai-syntax-errors-message
+     * ---- button.cm-floating-button.cm-ai-syntax-repair (when idle)
+     * -- div.cm-floating-buttons (first hunk only)
+     * ---- div.cm-ai-candidates (with alternative proposals)
+     * ------ button.cm-ai-candidate-button
+     * ------ span.cm-ai-candidate-count
+     * ------ button.cm-ai-candidate-button
+     * ---- div.cm-floating-button.cm-floating-stop (while generating)
      * ---- div.cm-floating-button.cm-floating-accept
      * ---- div.cm-floating-button.cm-floating-reject
+     * ---- div.cm-floating-button.cm-floating-accept-all (first of several edits)
+     * ---- div.cm-floating-button.cm-floating-reject-all (first of several edits)
+     * ---- form.cm-ai-refine-form (when idle)
+     * ------ input.cm-ai-refine-input
+     * ---- div.cm-ai-loading-indicator (while refining)
      */
 
     const container = ce("div", "cm-old-code-container");
     container.setAttribute("role", "region");
     container.setAttribute("aria-label", "Previous code version");
 
-    const oldCodeEl = ce("div", "cm-old-code cm-line");
-    oldCodeEl.textContent = this.oldCode;
+    const { hunk, showButtons, streaming, refining, candidate, edit, editCount, conflict } =
+      this.options;
+
+    if (this.oldCode) {
+      container.append(renderCode(this.oldCode, "cm-old-code", "cm-diff-highlight-remove"));
+    } else if (this.options.newCode) {
+      container.classList.add("cm-new-code-container");
+      container.setAttribute("aria-label", "Proposed code");
+      container.append(
+        renderCode(this.options.newCode, "cm-new-code-preview", "cm-diff-highlight-add"),
+      );
+    } else {
+      container.classList.add("cm-old-code-empty");
+    }
+
+    // The buttons act on the edit at the cursor, so move
+    // it into this one first
+    const focusEdit = () => {
+      view.focus();
+      if (edit !== null) selectEdit(view, edit);
+    };
+
+    if (conflict) {
+      container.append(renderConflictNotice(view, this.options.preview, focusEdit));
+      return container;
+    }
+    if (hunk !== null) {
+      container.append(renderHunkButtons(view, hunk, focusEdit));
+    }
+
+    if (!showButtons) return container;
+
+    if (this.options.syntaxIssues.length) {
+      container.append(
+        renderSyntaxIssues(view, this.options.syntaxIssues, streaming || refining, focusEdit),
+      );
+    }
 
     const buttonsContainer = ce("div", "cm-floating-buttons");
 
@@ -54,7 +235,7 @@ export class OldCodeWidget extends WidgetType {
     acceptButton.addEventListener("click", (e) => {
       e.preventDefault();
       e.stopPropagation();
-      view.focus();
+      focusEdit();
       acceptAiEdit(view);
     });
 
@@ -64,20 +245,304 @@ export class OldCodeWidget extends WidgetType {
     rejectButton.addEventListener("click", (e) => {
       e.preventDefault();
       e.stopPropagation();
-      view.focus();
+      focusEdit();
       rejectAiEdit(view);
     });
 
+    if (streaming || refining) {
+      container.setAttribute("aria-busy", "true");
+      const stopButton = ce("button", "cm-floating-button cm-floating-stop");
+      stopButton.textContent = "Stop";
+      stopButton.setAttribute("aria-label", "Stop code generation");
+      stopButton.addEventListener("click", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        focusEdit();
+        stopAiEdit(view);
+      });
+      buttonsContainer.append(stopButton);
+    }
+
+    if (candidate) {
+      buttonsContainer.append(renderCandidateSwitcher(view, candidate, keymaps, focusEdit));
+    }
     buttonsContainer.append(acceptButton, rejectButton);
-    container.append(oldCodeEl, buttonsContainer);
+    if (editCount > 1 && edit === view.state.field(completionsState)[0]?.id) {
+      buttonsContainer.append(...renderAllEditsButtons(view, keymaps));
+    }
+    if (refining) {
+      const loadingIndicator = buttonsContainer.appendChild(ce("div", "cm-ai-loading-indicator"));
+      loadingIndicator.setAttribute("role", "status");
+      loadingIndicator.setAttribute("aria-live", "polite");
+      loadingIndicator.textContent = "Refining";
+    } else if (!streaming) {
+      buttonsContainer.append(renderRefineForm(view, focusEdit));
+    }
+    container.append(buttonsContainer);
 
     return container;
   }
+}
 
-  updateDOM(_dom: HTMLElement, _view: EditorView) {
-    // Don't update the DOM
-    return true;
+/**
+ * The text removed by an edit within a single line, shown
+ * struck through in front of the text that replaces it
+ */
+export class InlineOldCodeWidget extends WidgetType {
+  constructor(private text: string) {
+    super();
+  }
+
+  eq(other: InlineOldCodeWidget) {
+    return other.text === this.text;
+  }
+
+  toDOM() {
+    const dom = ce("span", "cm-old-code-inline cm-diff-highlight-remove");
+    dom.setAttribute("aria-label", "Previous code version");
+    dom.textContent = this.text;
+    return dom;
+  }
+}
+
+/**
+ * The text a preview of an edit within a single line adds,
+ * shown after the text it replaces
+ */
+export class InlineNewCodeWidget extends WidgetType {
+  constructor(private text: string) {
+    super();
+  }
+
+  eq(other: InlineNewCodeWidget) {
+    return other.text === this.text;
+  }
+
+  toDOM() {
+    const dom = ce("span", "cm-new-code-inline cm-diff-highlight-add");
+    dom.setAttribute("aria-label", "Proposed code");
+    dom.textContent = this.text;
+    return dom;
+  }
+}
+
+/**
+ * Follow-up instruction field, to refine the pending edit
+ * without having to accept or reject it first
+ */
+function renderRefineForm(view: EditorView, focusEdit: () => void) {
+  const form = ce("form", "cm-ai-refine-form");
+  form.setAttribute("aria-label", "Follow-up instructions");
+
+  const input = form.appendChild(ce("input", "cm-ai-refine-input"));
+  input.placeholder = "Follow-up instructions...";
+  input.setAttribute("aria-label", "Follow-up instructions");
+  input.setAttribute("autocomplete", "off");
+  input.setAttribute("spellcheck", "true");
+
+  form.addEventListener("submit", (e) => {
+    e.preventDefault();
+    focusEdit();
+    refineAiEdit(view, input.value);
+  });
+  input.addEventListener("keydown", (e) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      view.focus();
+    }
+  });
+
+  return form;
+}
+
+/** Previous / next buttons around "2 of 3", to switch between alternative proposals */
+function renderCandidateSwitcher(
+  view: EditorView,
+  candidate: { index: number; count: number },
+  keymaps: typeof defaultKeymaps,
+  focusEdit: () => void,
+) {
+  const switcher = ce("div", "cm-ai-candidates");
+  switcher.setAttribute("role", "group");
+  switcher.setAttribute("aria-label", "Alternative proposals");
+
+  const previousButton = switcher.appendChild(ce("button", "cm-ai-candidate-button"));
+  previousButton.textContent = "‹";
+  previousButton.title = `Previous proposal (${formatKeymap(keymaps.previousCandidate)})`;
+  previousButton.setAttribute("aria-label", "Previous proposal");
+  previousButton.addEventListener("click", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    focusEdit();
+    previousAiEditCandidate(view);
+  });
+
+  const count = switcher.appendChild(ce("span", "cm-ai-candidate-count"));
+  count.setAttribute("aria-live", "polite");
+  count.textContent = `${candidate.index + 1} of ${candidate.count}`;
+
+  const nextButton = switcher.appendChild(ce("button", "cm-ai-candidate-button"));
+  nextButton.textContent = "›";
+  nextButton.title = `Next proposal (${formatKeymap(keymaps.nextCandidate)})`;
+  nextButton.setAttribute("aria-label", "Next proposal");
+  nextButton.addEventListener("click", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    focusEdit();
+    nextAiEditCandidate(view);
+  });
+
+  return switcher;
+}
+
+/** Accept / reject buttons for a single hunk */
+function renderHunkButtons(view: EditorView, hunk: number, focusEdit: () => void) {
+  const buttons = ce("div", "cm-hunk-buttons");
+
+  const acceptButton = buttons.appendChild(ce("button", "cm-hunk-button cm-hunk-accept"));
+  acceptButton.textContent = "Accept";
+  acceptButton.setAttribute("aria-label", `Accept change ${hunk + 1}`);
+  acceptButton.addEventListener("click", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    focusEdit();
+    acceptAiEditHunk(view, hunk);
+  });
+
+  const rejectButton = buttons.appendChild(ce("button", "cm-hunk-button cm-hunk-reject"));
+  rejectButton.textContent = "Reject";
+  rejectButton.setAttribute("aria-label", `Reject change ${hunk + 1}`);
+  rejectButton.addEventListener("click", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    focusEdit();
+    rejectAiEditHunk(view, hunk);
+  });
+
+  return buttons;
+}
+
+/**
+ * Notice that the code of a pending edit was changed by something
+ * else, so it can no longer be rejected (or applied, for a preview)
+ */
+function renderConflictNotice(view: EditorView, preview: boolean, focusEdit: () => void) {
+  const notice = ce("div", "cm-ai-conflict");
+  notice.setAttribute("role", "alert");
+
+  const message = notice.appendChild(ce("span", "cm-ai-conflict-message"));
+  message.textContent = preview
+    ? "The code changed while this edit was previewed, so it can no longer be applied."
+    : "The code changed while this edit was pending, so it can no longer be rejected.";
+
+  const dismissButton = notice.appendChild(
+    ce("button", "cm-floating-button cm-ai-conflict-dismiss"),
+  );
+  dismissButton.textContent = "Dismiss";
+  dismissButton.setAttribute("aria-label", "Dismiss the AI edit");
+  dismissButton.addEventListener("click", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    focusEdit();
+    acceptAiEdit(view);
+  });
+
+  return notice;
+}
+
+/**
+ * Notice that the proposed code has syntax errors, with a
+ * button to ask for them to be fixed
+ */
+function renderSyntaxIssues(
+  view: EditorView,
+  issues: SyntaxIssue[],
+  busy: boolean,
+  focusEdit: () => void,
+) {
+  const notice = ce("div", "cm-ai-syntax-errors");
+  notice.setAttribute("role", "alert");
+
+  const message = notice.appendChild(ce("span", "cm-ai-syntax-errors-message"));
+  message.textContent =
+    issues.length === 1
+      ? "The proposed code has a syntax error."
+      : `The proposed code has ${issues.length} syntax errors.`;
+  message.title = issues
+    .map(({ line, column, text }) => `Line ${line}, column ${column}: ${text.trim()}`)
+    .join("\n");
+
+  if (busy) return notice;
+  const repairButton = notice.appendChild(ce("button", "cm-floating-button cm-ai-syntax-repair"));
+  repairButton.textContent = "Repair";
+  repairButton.setAttribute("aria-label", "Ask for the syntax errors to be fixed");
+  repairButton.addEventListener("click", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    focusEdit();
+    repairAiEdit(view);
+  });
+
+  return notice;
+}
+
+/** Accept all / Reject all buttons, when a prompt was applied to several selections */
+function renderAllEditsButtons(view: EditorView, keymaps: typeof defaultKeymaps) {
+  const acceptAllButton = ce("button", "cm-floating-button cm-floating-accept-all");
+  acceptAllButton.innerHTML = `<span class="hotkey">${formatKeymap(keymaps.acceptAllEdits)}</span> Accept all`;
+  acceptAllButton.setAttribute("aria-label", "Accept all changes");
+  acceptAllButton.addEventListener("click", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    view.focus();
+    acceptAllAiEdits(view);
+  });
+
+  const rejectAllButton = ce("button", "cm-floating-button cm-floating-reject-all");
+  rejectAllButton.innerHTML = `<span class="hotkey">${formatKeymap(keymaps.rejectAllEdits)}</span> Reject all`;
+  rejectAllButton.setAttribute("aria-label", "Reject all changes");
+  rejectAllButton.addEventListener("click", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    view.focus();
+    rejectAllAiEdits(view);
+  });
+
+  return [acceptAllButton, rejectAllButton];
+}
+
+/** Move the cursor into the pending edit with the given id */
+function selectEdit(view: EditorView, id: number) {
+  const edit = view.state.field(completionsState).find((edit) => edit.id === id);
+  if (!edit || view.state.field(completionState) === edit) return;
+  view.dispatch({ selection: { anchor: edit.from } });
+}
+
+/** Render removed or added lines, wrapping the changed words in highlights */
+function renderCode({ text, words }: OldCode, className: string, highlightClassName: string) {
+  const codeEl = ce("div", `${className} cm-line`);
+  let pos = 0;
+  for (const word of words) {
+    codeEl.append(text.slice(pos, word.from));
+    const highlight = codeEl.appendChild(ce("span", highlightClassName));
+    highlight.textContent = text.slice(word.from, word.to);
+    pos = word.to;
   }
+  codeEl.append(text.slice(pos));
+  return codeEl;
+}
+
+/**
+ * The ranges the prompt in the input applies to, in document order:
+ * the selected lines or exact range, and those of the other selections
+ */
+function inputTargets(state: EditorState) {
+  const input = state.field(inputState);
+  const main = input.range ?? {
+    from: state.doc.line(input.lineFrom).from,
+    to: state.doc.line(input.lineTo).to,
+  };
+  return [main, ...(input.others ?? [])].sort((a, b) => a.from - b.from);
 }
 
 /**
@@ -85,14 +550,24 @@ export class OldCodeWidget extends WidgetType {
  * people can type prompts.
  */
 export class InputWidget extends WidgetType {
-  private abortController: AbortController | null = null;
   private dom: HTMLElement | null = null;
   private input: HTMLInputElement | null = null;
   private loadingContainer: HTMLDivElement | null = null;
   private helpInfo: HTMLDivElement | null = null;
   private inputContainer: HTMLDivElement | null = null;
   private form: HTMLFormElement | null = null;
+  /** The context providers mentioned in the input, as chips */
+  private mentions: HTMLDivElement | null = null;
+  /** Explains why the last request was dropped */
+  private notice: HTMLDivElement | null = null;
   private view: EditorView | null = null;
+  private suggestions: InputSuggestions<PromptSuggestion> | null = null;
+  /** Syncs the state and the help info after the input value is set */
+  private syncInput: (() => void) | null = null;
+  /** Position in the prompt history while recalling with the arrow keys, -1 for the draft */
+  private historyIndex = -1;
+  /** What was typed before recalling earlier prompts */
+  private draft = "";
 
   constructor(private complete: CompleteFunction) {
     super();
@@ -108,7 +583,10 @@ export class InputWidget extends WidgetType {
     /**
      * div.cm-ai-input-container
      * -- form.cm-ai-input-form
+     * ---- div.cm-ai-context-chips
      * ---- input.cm-ai-input
+     * ---- ul.cm-ai-input-suggestions
+     * -- div.cm-ai-input-notice (after a conflict)
      * -- div.cm-ai-loading-container
      * ---- button.cm-ai-cancel-button
      * ---- div.cm-ai-loading-indicator
@@ -127,16 +605,33 @@ export class InputWidget extends WidgetType {
     form.setAttribute("aria-label", "AI editing instructions");
     form.addEventListener("submit", (e) => e.preventDefault());
 
+    const mentions = ce("div", "cm-ai-context-chips");
+    this.mentions = mentions;
+    mentions.setAttribute("aria-label", "Attached context");
+
     const input = ce("input", "cm-ai-input");
     this.input = input;
-    form.append(input);
-    input.placeholder = "Editing instructions...";
+    form.append(mentions, input);
+    const { range } = view.state.field(inputState);
+    input.placeholder =
+      range && range.from === range.to
+        ? "Describe the code to insert..."
+        : "Editing instructions...";
     input.setAttribute("aria-label", "AI editing instructions");
     input.setAttribute("autocomplete", "off");
     input.setAttribute("spellcheck", "true");
     // Set initial value
     input.value = inputValue.inputValue;
 
+    const suggestions = new InputSuggestions<PromptSuggestion>(input, "Recent prompts", (item) => {
+      input.value = item.value;
+      if (item.cursor !== undefined) input.setSelectionRange(item.cursor, item.cursor);
+      if (item.mention) this.addMention(item.mention);
+      handleInput();
+    });
+    this.suggestions = suggestions;
+    form.append(suggestions.dom);
+
     const loadingContainer = ce("div", "cm-ai-loading-container");
     this.loadingContainer = loadingContainer;
 
@@ -165,13 +660,15 @@ export class InputWidget extends WidgetType {
     generateButton.setAttribute("aria-label", "Generate code");
     generateButton.addEventListener("click", this.handleSubmit);
 
+    this.renderMentions();
+    this.toggleConflict(view.state.field(inputState).conflict === true);
     this.toggleLoading(isLoading);
 
     // Focus if not the first render
     if (inputValue.shouldFocus) {
       requestAnimationFrame(() => {
         // Reset the input to its recorded value
-        input.value = inputValue.inputValue;
+        input.value = view.state.field(inputValueState).inputValue;
         input.focus();
         view.dispatch({ effects: setInputFocus.of(false) });
       });
@@ -180,7 +677,10 @@ export class InputWidget extends WidgetType {
     renderHelpInfo(input.value);
 
     input.addEventListener("input", handleInput);
+    input.addEventListener("input", this.onType);
     input.addEventListener("keydown", this.onKeyDown);
+    input.addEventListener("blur", () => suggestions.hide());
+    this.syncInput = handleInput;
 
     // Show the generate button if there's a value,
     // or the help/cancel button if there isn't.
@@ -210,24 +710,213 @@ export class InputWidget extends WidgetType {
     if (this.inputContainer && this.form && this.loadingContainer && this.helpInfo) {
       this.inputContainer?.replaceChildren(
         this.form,
+        ...(this.notice ? [this.notice] : []),
         loading ? this.loadingContainer : this.helpInfo,
       );
     }
   }
 
+  /** Render the mentioned context providers as removable chips */
+  private renderMentions() {
+    const { view, mentions } = this;
+    if (!view || !mentions) return;
+    const ids = view.state.field(inputValueState).mentions;
+    mentions.hidden = ids.length === 0;
+    mentions.replaceChildren(
+      ...ids.map((id) => {
+        const chip = ce("span", "cm-ai-context-chip");
+        chip.textContent = `@${id}`;
+        const remove = chip.appendChild(ce("button", "cm-ai-context-chip-remove"));
+        remove.type = "button";
+        remove.textContent = "×";
+        remove.setAttribute("aria-label", `Remove @${id}`);
+        remove.addEventListener("click", () => {
+          this.setMentions(view.state.field(inputValueState).mentions.filter((m) => m !== id));
+          this.input?.focus();
+        });
+        return chip;
+      }),
+    );
+  }
+
+  private addMention(id: string) {
+    const current = this.view?.state.field(inputValueState).mentions ?? [];
+    if (!current.includes(id)) this.setMentions([...current, id]);
+  }
+
+  private setMentions(ids: string[]) {
+    this.view?.dispatch({ effects: setInputMentions.of(ids) });
+    this.renderMentions();
+  }
+
+  /** Show a notice below the input, replacing any earlier one */
+  private setNotice(notice: HTMLDivElement | null) {
+    this.notice?.remove();
+    this.notice = notice;
+    if (notice) {
+      this.inputContainer?.insertBefore(notice, this.form?.nextSibling ?? null);
+    }
+  }
+
+  /**
+   * Show or hide the notice that the code changed while the
+   * edit was being generated, so it has to be submitted again
+   */
+  private toggleConflict(conflict: boolean) {
+    if (!conflict) {
+      this.setNotice(null);
+      return;
+    }
+    const notice = ce("div", "cm-ai-input-notice");
+    notice.setAttribute("role", "alert");
+    notice.textContent =
+      "The code changed while the edit was being generated. Submit again to retry.";
+    this.setNotice(notice);
+  }
+
+  /**
+   * Show why the request failed, with buttons to send it again,
+   * or to change the prompt first
+   */
+  private showError(error: AiError) {
+    const notice = ce("div", "cm-ai-input-notice cm-ai-input-error");
+    notice.setAttribute("role", "alert");
+    notice.dataset.category = error.category;
+
+    const message = notice.appendChild(ce("span", "cm-ai-input-error-message"));
+    message.textContent = errorMessage(error);
+
+    const retry = notice.appendChild(ce("button", "cm-ai-input-error-button"));
+    retry.type = "button";
+    retry.textContent = "Retry";
+    retry.addEventListener("click", () => this.handleSubmit());
+
+    const edit = notice.appendChild(ce("button", "cm-ai-input-error-button"));
+    edit.type = "button";
+    edit.textContent = "Edit prompt";
+    edit.addEventListener("click", () => {
+      this.setNotice(null);
+      this.input?.focus();
+      this.input?.select();
+    });
+
+    this.setNotice(notice);
+  }
+
   onKeyDown = async (e: KeyboardEvent) => {
+    if (this.suggestions?.handleKey(e)) {
+      e.preventDefault();
+      return;
+    }
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       await this.handleSubmit();
     } else if (e.key === "Escape") {
       this.onCancel();
+    } else if (e.key === "Backspace" && this.removeLastMention()) {
+      e.preventDefault();
+    } else if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+      if (this.recallPrompt(e.key === "ArrowUp" ? 1 : -1)) {
+        e.preventDefault();
+      }
+    }
+  };
+
+  /** Backspace at the start of the input removes the last chip */
+  private removeLastMention() {
+    const { view, input } = this;
+    if (!view || !input || input.selectionStart !== 0 || input.selectionEnd !== 0) return false;
+    const { mentions } = view.state.field(inputValueState);
+    if (!mentions.length) return false;
+    this.setMentions(mentions.slice(0, -1));
+    return true;
+  }
+
+  /**
+   * Typing leaves history recall, and suggests context providers
+   * after an `@`, slash commands after a `/`, or matching earlier
+   * prompts otherwise
+   */
+  onType = () => {
+    this.historyIndex = -1;
+    const { view, input, suggestions } = this;
+    if (!view || !input || !suggestions) return;
+
+    // Picking a provider turns the `@mention` into a chip
+    const cursor = input.selectionStart ?? input.value.length;
+    const mention = mentionQuery(input.value, cursor);
+    const providers = view.state.facet(contextProviders);
+    if (mention && providers.length) {
+      const rest = input.value.slice(0, mention.from) + input.value.slice(cursor);
+      suggestions.show(
+        providers
+          .filter((provider) => provider.id.startsWith(mention.query))
+          .map((provider) => ({
+            label: `@${provider.id}`,
+            detail: provider.description,
+            value: rest,
+            mention: provider.id,
+            cursor: mention.from,
+          })),
+        "Context",
+      );
+      return;
     }
+
+    const commandQuery = /^\/([\w-]*)$/.exec(input.value.trimStart());
+    if (commandQuery) {
+      const commands = view.state.facet(optionsFacet).slashCommands ?? defaultSlashCommands;
+      suggestions.show(
+        commands
+          .filter((command) => command.id.startsWith(commandQuery[1] ?? ""))
+          .map((command) => ({
+            label: `/${command.id}`,
+            detail: command.description,
+            value: `/${command.id} `,
+          })),
+        "Commands",
+      );
+      return;
+    }
+
+    const query = input.value.trim().toLowerCase();
+    const { history } = view.state.field(inputValueState);
+    suggestions.show(
+      query
+        ? history
+            .filter((prompt) => prompt.toLowerCase().includes(query) && prompt !== input.value)
+            .slice(0, MAX_HISTORY_SUGGESTIONS)
+            .map((prompt) => ({ label: prompt, value: prompt }))
+        : [],
+      "Recent prompts",
+    );
   };
 
+  /**
+   * Step through earlier prompts, shell-style: 1 for an older one,
+   * -1 for a newer one (and finally what was being typed).
+   * Returns false when there is nothing further in that direction.
+   */
+  private recallPrompt(direction: 1 | -1) {
+    const { view, input } = this;
+    if (!view || !input) return false;
+    const { history } = view.state.field(inputValueState);
+    const index = this.historyIndex + direction;
+    if (index < -1 || index >= history.length) return false;
+
+    if (this.historyIndex === -1) this.draft = input.value;
+    this.historyIndex = index;
+    input.value = index === -1 ? this.draft : (history[index] ?? "");
+    input.setSelectionRange(input.value.length, input.value.length);
+    this.syncInput?.();
+    return true;
+  }
+
   onCancel = () => {
     this.cleanup();
     const view = this.view;
     if (!view) return;
+    // Closing the input aborts any in-flight request
     view.dispatch({
       effects: [showInput.of({ show: false, lineFrom: 0, lineTo: 0 }), setLoading.of(false)],
     });
@@ -250,59 +939,142 @@ export class InputWidget extends WidgetType {
     // Input validation
     if (!state.show || !prompt) return;
 
-    // Get the full line content
-    const fromLine = view.state.doc.line(state.lineFrom);
-    const toLine = view.state.doc.line(state.lineTo);
-    const fromPos = fromLine.from;
-    const toPos = toLine.to;
-
-    const oldCode = view.state.sliceDoc(fromPos, toPos);
-    const codeBefore = view.state.sliceDoc(0, fromPos);
-    const codeAfter = view.state.sliceDoc(toPos);
+    // Slash commands expand into their template and pick the context
+    const invocation = parseSlashCommand(prompt, options.slashCommands ?? defaultSlashCommands);
+    const instruction = invocation ? expandSlashCommand(invocation) : prompt;
+    // Providers mentioned as chips, or written out in the prompt
+    const mentions = [
+      ...view.state.field(inputValueState).mentions,
+      ...parseMentions(prompt, view.state.facet(contextProviders)),
+    ];
+    let context: ContextItem[] | undefined;
+    const request = (from: number, to: number, signal: AbortSignal | undefined) =>
+      runRequest(
+        (signal) =>
+          this.complete({
+            prompt: instruction,
+            selection: view.state.sliceDoc(from, to),
+            ...promptContext(
+              view.state,
+              from,
+              to,
+              invocation?.command.context,
+              contextBudget(options),
+            ),
+            editorView: view,
+            signal,
+            command: invocation?.command.id,
+            n: options.candidates ?? 1,
+            context,
+            language: languageInfo(view.state, from, to),
+          }),
+        editRequestPolicy(options),
+        signal,
+      );
 
-    this.abortController = new AbortController();
-    view.dispatch({ effects: setLoading.of(true) });
+    const signal = view.plugin(editRequestPlugin)?.start();
+    this.suggestions?.hide();
+    this.setNotice(null);
+    view.dispatch({
+      effects: [
+        setLoading.of(true),
+        addPromptToHistory.of(prompt),
+        // Trying again after a conflict
+        ...(state.conflict ? [showInput.of({ ...state, conflict: undefined })] : []),
+      ],
+    });
     this.toggleLoading(true);
 
-    try {
-      const result = await this.complete({
-        prompt,
-        selection: oldCode,
-        codeBefore,
-        codeAfter,
-        editorView: view,
-        signal: this.abortController.signal,
-      });
+    // The result is dropped when the input was closed, or the
+    // code it applies to was changed in the meantime
+    const isWanted = (state: EditorState) => {
+      const { show, conflict } = state.field(inputState);
+      return show && !conflict;
+    };
+    const effects = [showInput.of({ show: false, lineFrom: 0, lineTo: 0 }), setLoading.of(false)];
+    // Shown in the input, unless there are results to show instead
+    let failure: AiError | null = null;
 
-      if (!view.state.field(inputState).show) return;
-
-      // Validate result
-      if (!result || typeof result !== "string") {
-        throw new Error("Invalid completion result");
+    try {
+      if (mentions.length) {
+        context = await resolveContext(view, mentions, signal);
+        if (!isWanted(view.state) || signal?.aborted) return;
+      }
+      const targets = inputTargets(view.state);
+      if (targets.length > 1) {
+        // One request per selection, shown together once all are done
+        const settled = await Promise.allSettled(
+          targets.map(async ({ from, to }) => collectCandidates(await request(from, to, signal))),
+        );
+        if (!isWanted(view.state) || signal?.aborted) return;
+        // Where the selections are now
+        const ranges = inputTargets(view.state);
+        const results: EditRequestResult[] = [];
+        for (const [i, outcome] of settled.entries()) {
+          const { from, to } = ranges[i] as { from: number; to: number };
+          if (outcome.status === "fulfilled") {
+            const oldCode = view.state.sliceDoc(from, to);
+            results.push({
+              from,
+              to,
+              completion: { oldCode, prompt: instruction, context },
+              candidates: outcome.value,
+            });
+          } else if (!isAbortError(outcome.reason)) {
+            const error = AiError.from(outcome.reason);
+            failure ??= error;
+            options.onError?.(error);
+          }
+        }
+        if (!results.length && settled.some((outcome) => outcome.status === "rejected")) {
+          // The errors were already reported, and are shown in the input
+          if (!failure) view.dispatch({ effects });
+          return;
+        }
+        showCompletionResults(view, results, effects);
+        return;
       }
 
-      view.dispatch({
-        changes: { from: fromPos, to: toPos, insert: result },
-        effects: [
-          showInput.of({ show: false, lineFrom: 0, lineTo: 0 }),
-          showCompletion.of({
-            from: fromPos,
-            to: fromPos + result.length,
-            oldCode,
-            newCode: result,
-          }),
-          setLoading.of(false),
-        ],
-      });
+      const [target] = targets as [{ from: number; to: number }];
+      const result = await request(target.from, target.to, signal);
+      if (!isWanted(view.state)) return;
+
+      // Where the selection is now
+      const [{ from, to }] = inputTargets(view.state) as [{ from: number; to: number }];
+      await showCompletionResult(
+        view,
+        result,
+        {
+          from,
+          to,
+          completion: { oldCode: view.state.sliceDoc(from, to), prompt: instruction, context },
+          isWanted,
+          effects,
+        },
+        signal,
+      );
     } catch (error) {
-      if (error instanceof DOMException && error.name === "AbortError") {
+      if (isAbortError(error)) {
         return;
       }
-      options.onError?.(error as Error);
+      failure = AiError.from(error);
+      options.onError?.(failure);
     } finally {
-      this.cleanup();
       this.toggleLoading(false);
-      view.focus();
+      const { show, conflict } = view.state.field(inputState);
+      if (show && (conflict || failure)) {
+        // Keep the input open, to submit again
+        view.dispatch({ effects: setLoading.of(false) });
+        if (failure && !conflict) {
+          this.showError(failure);
+        } else {
+          this.toggleConflict(true);
+        }
+        this.input?.focus();
+      } else {
+        this.cleanup();
+        view.focus();
+      }
     }
   };
 
@@ -314,8 +1086,6 @@ export class InputWidget extends WidgetType {
   }
 
   private cleanup() {
-    this.abortController?.abort();
-    this.abortController = null;
     this.dom?.remove();
     this.input?.remove();
     this.dom = null;